@@ -0,0 +1,56 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import { errorHandler } from './middleware/errorHandler.js';
+import { uploadRoutes } from './routes/uploadRoutes.js';
+import { saveRoutes } from './routes/saveRoutes.js';
+import { imageRoutes } from './routes/imageRoutes.js';
+import { getOcrProvider } from './services/ocrProvider.js';
+
+// The Express app, without a database connection or listening port, so tests can drive it directly
+const app = express();
+
+// Security middleware
+app.use(helmet());
+app.use(cors({
+  origin: process.env.NODE_ENV === 'production'
+    ? ['https://your-production-domain.com']
+    : ['http://localhost:5173', 'http://localhost:3000'],
+  credentials: true
+}));
+
+// Body parsing middleware
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+// Routes
+app.use('/api/id', uploadRoutes);
+app.use('/api/id', imageRoutes);
+app.use('/api/id', saveRoutes);
+
+// Health check endpoint
+app.get('/api/health', (req, res) => {
+  const provider = getOcrProvider();
+  const circuitBreaker = provider.circuitBreaker?.getStatus();
+  res.status(200).json({
+    // OCR calls fail fast while the provider's circuit is open
+    status: circuitBreaker?.state === 'open' ? 'DEGRADED' : 'OK',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+    ocrProvider: provider.name,
+    ocrCircuitBreaker: circuitBreaker ?? null
+  });
+});
+
+// Error handling middleware (should be last)
+app.use(errorHandler);
+
+// 404 handler
+app.use('*', (req, res) => {
+  res.status(404).json({
+    error: 'Route not found',
+    message: `Cannot ${req.method} ${req.originalUrl}`
+  });
+});
+
+export default app;
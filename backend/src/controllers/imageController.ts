@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { ImagePreprocessingService } from '../services/imagePreprocessingService.js';
+import { PortraitService } from '../services/portraitService.js';
+import { SignedUrlService } from '../services/signedUrlService.js';
+
+// Send an image after checking the link's signature; `label` names the image in errors
+const sendSignedImage = (
+  req: Request,
+  res: Response,
+  urlPath: string,
+  imagePath: string | null,
+  label: string
+) => {
+  const expires = Number(req.query.expires);
+  const signature = String(req.query.signature || '');
+
+  if (!SignedUrlService.verify(urlPath, expires, signature)) {
+    throw createError(`Invalid or expired ${label} link`, 403);
+  }
+  if (!imagePath || !fs.existsSync(imagePath)) {
+    throw createError(`${label.charAt(0).toUpperCase()}${label.slice(1)} not found`, 404);
+  }
+
+  // Links expire, so browsers shouldn't keep the image longer than the link is valid
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  // The dev frontend runs on another port of the same host; the signature still gates access
+  res.setHeader('Cross-Origin-Resource-Policy', 'same-site');
+  res.sendFile(imagePath);
+};
+
+export const imageController = {
+  // GET /api/id/images/:fileName - Processed upload; only served through the signed links in
+  // upload and record responses
+  getProcessedImage: asyncHandler(async (req: Request, res: Response) => {
+    const { fileName } = req.params;
+    sendSignedImage(req, res, ImagePreprocessingService.getUrlPath(fileName), ImagePreprocessingService.getPath(fileName), 'image');
+  }),
+
+  // GET /api/id/portraits/:fileName - Portrait thumbnail (signed links only, as above)
+  getPortrait: asyncHandler(async (req: Request, res: Response) => {
+    const { fileName } = req.params;
+    sendSignedImage(req, res, PortraitService.getUrlPath(fileName), PortraitService.getPath(fileName), 'portrait');
+  })
+};
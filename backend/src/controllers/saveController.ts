@@ -1,6 +1,25 @@
 import { Request, Response } from 'express';
+import { FilterQuery } from 'mongoose';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 import { IDData, IIDData } from '../models/IDData.js';
+import {
+  DISCREPANCY_RESOLUTIONS,
+  DOCUMENT_TYPES,
+  FIELD_SOURCES,
+  ID_FIELDS,
+  NATIVE_SCRIPT_FIELDS,
+  NativeScriptField,
+  VALIDITY_STATUSES,
+  ValidityStatus
+} from '../models/ExtractedIDData.js';
+import { ValidityService } from '../services/validityService.js';
+import { CsvExportService } from '../services/csvExportService.js';
+import { ImagePreprocessingService } from '../services/imagePreprocessingService.js';
+import { NameParser } from '../services/nameParser.js';
+import { PortraitService } from '../services/portraitService.js';
+import { DATE_FIELDS, DateField, dateOrderFor, isoToDate, parseDocumentDate, toIsoDate, validateDates } from '../shared/dates.js';
+import { isValidPostalCode, normalizeCountry, normalizePostalCode, postalCodeErrorMessage, splitZipCode } from '../shared/postalCodes.js';
+import { normalizeSex } from '../shared/sex.js';
 import { z } from 'zod';
 
 // Validation schema for ID data
@@ -8,17 +27,182 @@ const idDataSchema = z.object({
   id: z.string().optional(),
   lastName: z.string().min(1, 'Last name is required').max(100),
   firstName: z.string().min(1, 'First name is required').max(100),
+  middleName: z.string().max(100).optional(),
   middleInitial: z.string().max(1).optional(),
+  suffix: z.string().max(10).transform(suffix => NameParser.normalizeSuffix(suffix) || suffix.trim().toUpperCase()).optional(),
+  preferredName: z.string().max(100).optional(),
   addressStreet: z.string().max(200).optional(),
   addressCity: z.string().max(100).optional(),
   addressState: z.string().max(50).optional(),
   addressZip: z.string().max(20).optional(),
-  sex: z.enum(['M', 'F', 'Male', 'Female']).optional(),
+  addressCountry: z.string().max(60).transform(normalizeCountry)
+    .refine(country => !country || /^[A-Z]{2}$/.test(country), 'Must be a 2-letter country code or a listed country')
+    .optional(),
+  sex: z.string().max(20).transform(normalizeSex)
+    .refine(sex => !!sex, 'Must be M, F, X or U (unspecified)')
+    .optional(),
   dob: z.string().optional(),
+  issueDate: z.string().optional(),
+  expirationDate: z.string().optional(),
+  documentClass: z.string().max(10).optional(),
+  endorsements: z.string().max(50).optional(),
+  restrictions: z.string().max(50).optional(),
+  height: z.string().max(20).optional(),
+  weight: z.string().max(20).optional(),
+  eyeColor: z.string().max(20).optional(),
+  hairColor: z.string().max(20).optional(),
+  organDonor: z.boolean().optional(),
+  documentType: z.enum(DOCUMENT_TYPES).optional(),
+  issuingJurisdiction: z.string().regex(/^[A-Za-z]{2,3}$/, 'Must be a 2-letter state or 3-letter country code').optional(),
+  nativeScript: z.object({
+    script: z.string().regex(/^[A-Z][a-z]{3}$/, 'Must be an ISO 15924 script code').optional(),
+    ...Object.fromEntries(NATIVE_SCRIPT_FIELDS.map(field => [field, z.string().max(200).optional()])) as
+      Record<NativeScriptField, z.ZodOptional<z.ZodString>>
+  }).optional(),
   confidence: z.number().min(0).max(1).optional(),
-  sourceFileName: z.string().max(255).optional()
+  fieldConfidence: z.record(z.enum(ID_FIELDS), z.number().min(0).max(1)).optional(),
+  fieldSources: z.record(z.enum(ID_FIELDS), z.enum(FIELD_SOURCES)).optional(),
+  mrzValid: z.boolean().optional(),
+  mrzFailedChecks: z.array(z.string().max(50)).max(10).optional(),
+  discrepancies: z.array(z.object({
+    field: z.enum(ID_FIELDS),
+    source: z.enum(['barcode', 'mrz']),
+    printedValue: z.string().max(200),
+    machineValue: z.string().max(200),
+    message: z.string().max(500).optional(),
+    resolution: z.enum(DISCREPANCY_RESOLUTIONS).optional()
+  })).max(ID_FIELDS.length * 2).optional(),
+  sourceFileName: z.string().max(255).optional(),
+  processedImage: z.string().max(255).regex(/^[\w.-]+-processed\.jpg$/, 'Must be a processed image file name').optional(),
+  processedBackImage: z.string().max(255).regex(/^[\w.-]+-processed\.jpg$/, 'Must be a processed image file name').optional(),
+  portraitImage: z.string().max(255).regex(/^[\w.-]+-portrait\.jpg$/, 'Must be a portrait image file name').optional(),
+  promptVersion: z.string().max(200).optional(),
+  ocrModel: z.string().max(100).optional()
+}).refine(data => !data.addressZip || isValidPostalCode(data.addressZip, data.addressCountry), data => ({
+  message: postalCodeErrorMessage(data.addressCountry),
+  path: ['addressZip']
+})).transform((data, ctx) => {
+  // The form sends YYYY-MM-DD, but other clients may send dates as printed on the document
+  const order = dateOrderFor(data.issuingJurisdiction);
+  const dates: Partial<Record<DateField, string>> = {};
+  DATE_FIELDS.forEach(field => {
+    if (!data[field]) {
+      return;
+    }
+    const iso = parseDocumentDate(data[field], { order, past: field === 'dob' });
+    if (iso) {
+      dates[field] = iso;
+    } else {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: 'Invalid date' });
+    }
+  });
+  validateDates(dates).forEach(issue => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.field], message: issue.message }));
+
+  return {
+    ...data,
+    // Store the code the way its country prints it, e.g. "K1A 0B1"
+    addressZip: data.addressZip && normalizePostalCode(data.addressZip, data.addressCountry),
+    dob: dates.dob && isoToDate(dates.dob),
+    issueDate: dates.issueDate && isoToDate(dates.issueDate),
+    expirationDate: dates.expirationDate && isoToDate(dates.expirationDate)
+  };
 });
 
+// Stored dates are returned as YYYY-MM-DD
+const formatDate = (date?: Date): string | undefined => date ? toIsoDate(date) : undefined;
+
+// Shape a stored record for API responses
+const formatIDData = (item: IIDData) => ({
+  id: item._id,
+  extractedData: {
+    id: item.id,
+    lastName: item.lastName,
+    firstName: item.firstName,
+    middleName: item.middleName,
+    middleInitial: item.middleInitial,
+    suffix: item.suffix,
+    preferredName: item.preferredName,
+    addressStreet: item.addressStreet,
+    addressCity: item.addressCity,
+    addressState: item.addressState,
+    addressZip: item.addressZip,
+    // ZIP and +4 extension of US ZIP codes, for mail merges
+    ...splitZipCode(item.addressZip, item.addressCountry),
+    addressCountry: item.addressCountry,
+    sex: item.sex,
+    // Stored sex value a migration didn't recognize, shown to the reviewer to re-enter
+    legacySex: item.legacySex,
+    dob: formatDate(item.dob),
+    issueDate: formatDate(item.issueDate),
+    expirationDate: formatDate(item.expirationDate),
+    // Stored dates a migration couldn't read, shown to the reviewer to re-enter
+    legacyDob: item.legacyDob,
+    legacyIssueDate: item.legacyIssueDate,
+    legacyExpirationDate: item.legacyExpirationDate,
+    documentClass: item.documentClass,
+    endorsements: item.endorsements,
+    restrictions: item.restrictions,
+    height: item.height,
+    weight: item.weight,
+    eyeColor: item.eyeColor,
+    hairColor: item.hairColor,
+    organDonor: item.organDonor,
+    // Recomputed so records saved before they expired report their current status
+    validityStatus: ValidityService.computeStatus(item),
+    documentType: item.documentType,
+    issuingJurisdiction: item.issuingJurisdiction,
+    nativeScript: item.nativeScript,
+    confidence: item.confidence,
+    fieldConfidence: item.fieldConfidence ? Object.fromEntries(item.fieldConfidence) : undefined,
+    fieldSources: item.fieldSources ? Object.fromEntries(item.fieldSources) : undefined,
+    mrzValid: item.mrzValid,
+    mrzFailedChecks: item.mrzFailedChecks,
+    discrepancies: item.discrepancies
+  },
+  metadata: {
+    sourceFileName: item.sourceFileName,
+    processedImage: item.processedImage,
+    // Image links are signed and expire; fetch the record again for fresh ones
+    processedImageUrl: item.processedImage ? ImagePreprocessingService.getSignedUrl(item.processedImage) : undefined,
+    processedBackImage: item.processedBackImage,
+    processedBackImageUrl: item.processedBackImage ? ImagePreprocessingService.getSignedUrl(item.processedBackImage) : undefined,
+    portraitImage: item.portraitImage,
+    portraitUrl: item.portraitImage ? PortraitService.getSignedUrl(item.portraitImage) : undefined,
+    promptVersion: item.promptVersion,
+    ocrModel: item.ocrModel,
+    extractedAt: item.extractedAt,
+    lastModified: item.lastModified,
+    isManuallyEdited: item.isManuallyEdited
+  }
+});
+
+// Columns of the mail-merge export, in order; zip5/zipPlus4 are only set for US ZIP codes
+const EXPORT_COLUMNS = [
+  'recordId', 'firstName', 'middleName', 'middleInitial', 'lastName', 'suffix', 'addressStreet', 'addressCity',
+  'addressState', 'addressZip', 'zip5', 'zipPlus4', 'addressCountry', 'id', 'documentType', 'issuingJurisdiction',
+  'expirationDate', 'validityStatus', 'extractedAt'
+] as const;
+
+// Query filters shared by the list and export endpoints
+const buildListFilter = (query: Request['query']): FilterQuery<IIDData> => {
+  const filter: FilterQuery<IIDData> = {};
+  if (query.documentType) {
+    const documentType = String(query.documentType);
+    if (!(DOCUMENT_TYPES as readonly string[]).includes(documentType)) {
+      throw createError(`Invalid documentType. Expected one of: ${DOCUMENT_TYPES.join(', ')}`, 400);
+    }
+    filter.documentType = documentType;
+  }
+  if (query.validityStatus) {
+    const validityStatus = String(query.validityStatus);
+    if (!(VALIDITY_STATUSES as readonly string[]).includes(validityStatus)) {
+      throw createError(`Invalid validityStatus. Expected one of: ${VALIDITY_STATUSES.join(', ')}`, 400);
+    }
+    Object.assign(filter, ValidityService.buildQuery(validityStatus as ValidityStatus));
+  }
+  return filter;
+};
+
 export const saveController = {
   // POST /api/id/save - Save extracted or corrected ID data
   saveData: asyncHandler(async (req: Request, res: Response) => {
@@ -49,28 +233,7 @@ export const saveController = {
       res.status(201).json({
         success: true,
         message: 'ID data saved successfully',
-        data: {
-          id: savedData._id,
-          extractedData: {
-            id: savedData.id,
-            lastName: savedData.lastName,
-            firstName: savedData.firstName,
-            middleInitial: savedData.middleInitial,
-            addressStreet: savedData.addressStreet,
-            addressCity: savedData.addressCity,
-            addressState: savedData.addressState,
-            addressZip: savedData.addressZip,
-            sex: savedData.sex,
-            dob: savedData.dob,
-            confidence: savedData.confidence
-          },
-          metadata: {
-            sourceFileName: savedData.sourceFileName,
-            extractedAt: savedData.extractedAt,
-            lastModified: savedData.lastModified,
-            isManuallyEdited: savedData.isManuallyEdited
-          }
-        }
+        data: formatIDData(savedData)
       });
 
     } catch (error: any) {
@@ -94,39 +257,20 @@ export const saveController = {
     const limit = parseInt(req.query.limit as string) || 10;
     const skip = (page - 1) * limit;
 
+    const filter = buildListFilter(req.query);
+
     const [data, total] = await Promise.all([
-      IDData.find()
+      IDData.find(filter)
         .sort({ extractedAt: -1 })
         .skip(skip)
         .limit(limit)
         .select('-__v'),
-      IDData.countDocuments()
+      IDData.countDocuments(filter)
     ]);
 
     res.status(200).json({
       success: true,
-      data: data.map(item => ({
-        id: item._id,
-        extractedData: {
-          id: item.id,
-          lastName: item.lastName,
-          firstName: item.firstName,
-          middleInitial: item.middleInitial,
-          addressStreet: item.addressStreet,
-          addressCity: item.addressCity,
-          addressState: item.addressState,
-          addressZip: item.addressZip,
-          sex: item.sex,
-          dob: item.dob,
-          confidence: item.confidence
-        },
-        metadata: {
-          sourceFileName: item.sourceFileName,
-          extractedAt: item.extractedAt,
-          lastModified: item.lastModified,
-          isManuallyEdited: item.isManuallyEdited
-        }
-      })),
+      data: data.map(formatIDData),
       pagination: {
         currentPage: page,
         totalPages: Math.ceil(total / limit),
@@ -136,6 +280,24 @@ export const saveController = {
     });
   }),
 
+  // GET /api/id/export - Download saved records as CSV for mail merges (same filters as GET /api/id)
+  exportData: asyncHandler(async (req: Request, res: Response) => {
+    const filter = buildListFilter(req.query);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="id-records-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.write(CsvExportService.formatRow([...EXPORT_COLUMNS]));
+
+    // Stream the records so large exports aren't held in memory
+    for await (const item of IDData.find(filter).sort({ extractedAt: -1 }).cursor()) {
+      const { id: recordId, extractedData, metadata } = formatIDData(item as IIDData);
+      const row: { [column: string]: unknown } = { ...extractedData, ...metadata, recordId };
+      res.write(CsvExportService.formatRow(EXPORT_COLUMNS.map(column => row[column])));
+    }
+    res.end();
+  }),
+
   // GET /api/id/search - Search ID data by name or ID number
   searchData: asyncHandler(async (req: Request, res: Response) => {
     const searchTerm = req.query.q as string;
@@ -147,28 +309,7 @@ export const saveController = {
 
     res.status(200).json({
       success: true,
-      data: data.map(item => ({
-        id: item._id,
-        extractedData: {
-          id: item.id,
-          lastName: item.lastName,
-          firstName: item.firstName,
-          middleInitial: item.middleInitial,
-          addressStreet: item.addressStreet,
-          addressCity: item.addressCity,
-          addressState: item.addressState,
-          addressZip: item.addressZip,
-          sex: item.sex,
-          dob: item.dob,
-          confidence: item.confidence
-        },
-        metadata: {
-          sourceFileName: item.sourceFileName,
-          extractedAt: item.extractedAt,
-          lastModified: item.lastModified,
-          isManuallyEdited: item.isManuallyEdited
-        }
-      }))
+      data: data.map(formatIDData)
     });
   }),
 
@@ -187,28 +328,7 @@ export const saveController = {
 
     res.status(200).json({
       success: true,
-      data: {
-        id: data._id,
-        extractedData: {
-          id: data.id,
-          lastName: data.lastName,
-          firstName: data.firstName,
-          middleInitial: data.middleInitial,
-          addressStreet: data.addressStreet,
-          addressCity: data.addressCity,
-          addressState: data.addressState,
-          addressZip: data.addressZip,
-          sex: data.sex,
-          dob: data.dob,
-          confidence: data.confidence
-        },
-        metadata: {
-          sourceFileName: data.sourceFileName,
-          extractedAt: data.extractedAt,
-          lastModified: data.lastModified,
-          isManuallyEdited: data.isManuallyEdited
-        }
-      }
+      data: formatIDData(data)
     });
   })
 };
\ No newline at end of file
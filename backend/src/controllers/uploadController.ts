@@ -1,56 +1,195 @@
 import { Request, Response } from 'express';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 import { HeicConversionService } from '../services/heicConversionService.js';
-import { AnthropicService } from '../services/anthropicService.js';
+import { PdfConversionService } from '../services/pdfConversionService.js';
+import { ExtractionService } from '../services/extractionService.js';
+import { ImagePreprocessingService, PreprocessResult } from '../services/imagePreprocessingService.js';
+import { ImageQualityService, QualityMetrics } from '../services/imageQualityService.js';
+import { ExtractionCacheService } from '../services/extractionCacheService.js';
+import { getOcrProvider } from '../services/ocrProvider.js';
+import { PortraitResult, PortraitService } from '../services/portraitService.js';
+import { splitZipCode } from '../shared/postalCodes.js';
 import fs from 'fs';
 import path from 'path';
 
+type UploadedFiles = { [fieldname: string]: Express.Multer.File[] };
+
+// One side of the document, converted and preprocessed
+interface PreparedImage {
+  // Converted upload (JPEG/PNG), deleted once the request is done
+  imagePath: string;
+  preprocessing?: PreprocessResult;
+  quality?: QualityMetrics;
+}
+
+// Parse the optional 1-based PDF page number from the request
+const parsePageNumber = (value: unknown): number => {
+  if (value === undefined || value === '') {
+    return 1;
+  }
+
+  const pageNumber = Number(value);
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+    throw createError('Page must be a positive whole number', 400);
+  }
+  return pageNumber;
+};
+
+// Convert, preprocess and quality-check one uploaded side; `label` names the side in quality errors
+const prepareImage = async (file: Express.Multer.File, pageValue: unknown, label?: string): Promise<PreparedImage> => {
+  let imagePath = file.path;
+
+  // Convert HEIC to JPEG if necessary
+  if (file.mimetype === 'image/heic') {
+    imagePath = await HeicConversionService.convertIfHeic(imagePath, file.mimetype);
+  }
+
+  // Render the requested PDF page (first page by default) to PNG
+  if (file.mimetype === 'application/pdf') {
+    imagePath = await PdfConversionService.convertIfPdf(imagePath, file.mimetype, parsePageNumber(pageValue));
+  }
+
+  const prepared: PreparedImage = { imagePath };
+
+  // Straighten, crop and normalize the image; the processed copy is kept for preview and storage
+  if (ImagePreprocessingService.isEnabled()) {
+    prepared.preprocessing = await ImagePreprocessingService.preprocess(imagePath);
+  }
+
+  // Reject blurry, glary or undersized photos before spending an OCR call on them
+  if (ImageQualityService.isEnabled()) {
+    prepared.quality = prepared.preprocessing?.quality ?? await ImageQualityService.measure(imagePath);
+    try {
+      ImageQualityService.assertAcceptable(prepared.quality, label);
+    } catch (error) {
+      removeFile(prepared.imagePath);
+      removeFile(prepared.preprocessing?.imagePath);
+      throw error;
+    }
+  }
+
+  return prepared;
+};
+
+const removeFile = (filePath: string | undefined) => {
+  if (filePath && fs.existsSync(filePath)) {
+    try {
+      fs.unlinkSync(filePath);
+    } catch (cleanupError) {
+      console.error('Failed to cleanup file:', filePath, cleanupError);
+    }
+  }
+};
+
+const describeProcessedImage = (preprocessing: PreprocessResult | undefined) => preprocessing && {
+  fileName: preprocessing.fileName,
+  // Signed link that expires
+  url: ImagePreprocessingService.getSignedUrl(preprocessing.fileName),
+  width: preprocessing.width,
+  height: preprocessing.height,
+  deskewAngle: preprocessing.deskewAngle,
+  cropped: preprocessing.cropped
+};
+
 export const uploadController = {
   uploadAndExtract: asyncHandler(async (req: Request, res: Response) => {
-    if (!req.file) {
-      throw createError('No file uploaded', 400);
-    }
+    const files = (req.files || {}) as UploadedFiles;
+    // "idImage" is the single-sided upload; "front" is its two-sided equivalent
+    const frontFile = files.front?.[0] ?? files.idImage?.[0];
+    const backFile = files.back?.[0];
+
+    const prepared: PreparedImage[] = [];
+    let portrait: PortraitResult | null = null;
 
     try {
-      let imagePath = req.file.path;
-      const originalMimeType = req.file.mimetype;
+      if (!frontFile) {
+        throw createError(backFile ? 'The front of the ID is required' : 'No file uploaded', 400);
+      }
+      if (files.front && files.idImage) {
+        throw createError('Upload either idImage or front and back, not both', 400);
+      }
 
-      // Convert HEIC to JPEG if necessary
-      if (originalMimeType === 'image/heic') {
-        imagePath = await HeicConversionService.convertIfHeic(imagePath, originalMimeType);
+      const front = await prepareImage(frontFile, req.body.page ?? req.query.page, backFile && 'Front');
+      prepared.push(front);
+      const back = backFile && await prepareImage(backFile, req.body.backPage ?? req.query.backPage, 'Back');
+      if (back) {
+        prepared.push(back);
       }
 
-      // Perform OCR using Anthropic
-      const extractedData = await AnthropicService.extractTextFromImage(imagePath);
+      const frontPath = front.preprocessing?.imagePath ?? front.imagePath;
+      const backPath = back && (back.preprocessing?.imagePath ?? back.imagePath);
 
-      // Clean up uploaded file after processing
-      try {
-        fs.unlinkSync(imagePath);
-      } catch (cleanupError) {
-        console.error('Failed to cleanup uploaded file:', cleanupError);
+      // Re-uploads of the same photo reuse the stored result for the same model and prompts
+      const cacheKey = ExtractionCacheService.getKey(backPath ? [frontPath, backPath] : [frontPath], getOcrProvider());
+      const cachedResult = cacheKey && await ExtractionCacheService.get(cacheKey);
+
+      // Decode any barcode, perform OCR, verify any MRZ and cross-check the printed text against both using the configured provider
+      const result = cachedResult || await ExtractionService.extract({
+        imagePath: frontPath,
+        originalName: frontFile.originalname,
+        ...(back && {
+          back: {
+            imagePath: backPath,
+            originalName: backFile.originalname
+          }
+        })
+      });
+      if (cacheKey && !cachedResult) {
+        await ExtractionCacheService.set(cacheKey, result);
       }
+      const { extractedData, barcode, mrz, discrepancies } = result;
+
+      // Thumbnail of the holder's photo, cropped from the front before the upload is removed
+      portrait = PortraitService.isEnabled()
+        ? await PortraitService.extract(frontPath, extractedData, !!front.preprocessing?.cropped)
+        : null;
+
+      // Clean up uploaded files after processing; processed copies are kept
+      prepared.forEach(image => removeFile(image.imagePath));
 
       // Return successful response
       res.status(200).json({
         success: true,
         data: {
-          extractedData,
-          fileName: req.file.originalname,
-          fileSize: req.file.size,
-          mimeType: originalMimeType
+          extractedData: {
+            ...extractedData,
+            ...splitZipCode(extractedData.addressZip, extractedData.addressCountry)
+          },
+          barcode,
+          mrz,
+          discrepancies,
+          cached: !!cachedResult,
+          processedImage: describeProcessedImage(front.preprocessing),
+          portrait: portrait && {
+            fileName: portrait.fileName,
+            url: PortraitService.getSignedUrl(portrait.fileName),
+            width: portrait.width,
+            height: portrait.height,
+            source: portrait.source
+          },
+          quality: front.quality,
+          ...(back && {
+            back: {
+              processedImage: describeProcessedImage(back.preprocessing),
+              quality: back.quality,
+              fileName: backFile.originalname
+            }
+          }),
+          fileName: frontFile.originalname,
+          fileSize: frontFile.size,
+          mimeType: frontFile.mimetype
         }
       });
 
     } catch (error) {
-      // Clean up uploaded file on error
-      if (req.file && req.file.path && fs.existsSync(req.file.path)) {
-        try {
-          fs.unlinkSync(req.file.path);
-        } catch (cleanupError) {
-          console.error('Failed to cleanup uploaded file on error:', cleanupError);
-        }
-      }
+      // Clean up uploaded, processed and portrait files on error
+      Object.values(files).flat().forEach(file => removeFile(file.path));
+      prepared.forEach(image => {
+        removeFile(image.imagePath);
+        removeFile(image.preprocessing?.imagePath);
+      });
+      removeFile(portrait?.imagePath);
       throw error;
     }
   })
-};
\ No newline at end of file
+};
@@ -1,8 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 
+// A specific reason a request was rejected, for errors with more than a message to report
+export interface ApiErrorIssue {
+  code: string;
+  message: string;
+  // What the user can do about it
+  advice?: string;
+}
+
 export interface ApiError extends Error {
   statusCode?: number;
   status?: string;
+  issues?: ApiErrorIssue[];
 }
 
 export const errorHandler = (
@@ -56,6 +65,7 @@ export const errorHandler = (
     success: false,
     error: {
       message,
+      ...(err.issues && { issues: err.issues }),
       ...(process.env.NODE_ENV === 'development' && {
         stack: err.stack,
         details: err
@@ -64,10 +74,13 @@ export const errorHandler = (
   });
 };
 
-export const createError = (message: string, statusCode: number = 500): ApiError => {
+export const createError = (message: string, statusCode: number = 500, issues?: ApiErrorIssue[]): ApiError => {
   const error = new Error(message) as ApiError;
   error.statusCode = statusCode;
   error.status = `${statusCode}`.startsWith('4') ? 'fail' : 'error';
+  if (issues) {
+    error.issues = issues;
+  }
   return error;
 };
 
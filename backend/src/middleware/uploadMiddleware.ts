@@ -38,6 +38,6 @@ export const upload = multer({
   fileFilter,
   limits: {
     fileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB default
-    files: 1 // Only allow one file at a time
+    files: 2 // One image, or the front and back of a document
   }
 });
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { IDData } from '../models/IDData.js';
+import { ValidityService } from '../services/validityService.js';
+import { DataMigration } from './index.js';
+
+// Records saved before validity tracking have no validFrom/expiresAt, so the status filters (which
+// query those dates) skipped them
+export const backfillValidity: DataMigration = {
+  name: '003-backfill-validity',
+  description: 'Set validFrom, expiresAt and validityStatus from the issue and expiration dates',
+  async up() {
+    let modifiedCount = 0;
+    const cursor = IDData.collection.find({
+      $or: [{ validFrom: { $exists: false } }, { expiresAt: { $exists: false } }, { validityStatus: { $exists: false } }]
+    });
+
+    for await (const record of cursor) {
+      const dates = { issueDate: record.issueDate, expirationDate: record.expirationDate };
+      await IDData.collection.updateOne({ _id: record._id }, {
+        $set: {
+          validFrom: ValidityService.parseDate(dates.issueDate),
+          expiresAt: ValidityService.parseDate(dates.expirationDate),
+          validityStatus: ValidityService.computeStatus(dates)
+        }
+      });
+      modifiedCount++;
+    }
+
+    return modifiedCount;
+  }
+};
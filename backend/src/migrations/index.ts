@@ -0,0 +1,19 @@
+import { backfillValidity } from './backfillValidity.js';
+import { normalizeSexCodes } from './normalizeSexCodes.js';
+import { storeDatesAsDates } from './storeDatesAsDates.js';
+
+// A one-off change to stored data, applied once per database by MigrationService
+export interface DataMigration {
+  // Unique and never changed once released; prefixed with a sequence number
+  name: string;
+  description: string;
+  // Returns the number of documents changed
+  up(): Promise<number>;
+}
+
+// Applied in this order; append new migrations to the end
+export const MIGRATIONS: DataMigration[] = [
+  storeDatesAsDates,
+  normalizeSexCodes,
+  backfillValidity
+];
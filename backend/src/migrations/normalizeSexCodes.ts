@@ -0,0 +1,30 @@
+import { IDData } from '../models/IDData.js';
+import { Logger } from '../services/logger.js';
+import { normalizeSex, SEX_CODES } from '../shared/sex.js';
+import { DataMigration } from './index.js';
+
+// Records could store sex as "Male"/"Female" (or "MALE"/"FEMALE" after the schema's uppercasing).
+// X markers read before X was supported were stored as F and can't be told apart, so they stay as F.
+// Values that aren't a sex marker are moved to legacySex for a reviewer to fix.
+export const normalizeSexCodes: DataMigration = {
+  name: '002-normalize-sex-codes',
+  description: 'Store sex as one of M, F, X or U',
+  async up() {
+    let modifiedCount = 0;
+    // Work on the raw collection: the model now rejects the old values
+    const cursor = IDData.collection.find({ sex: { $exists: true, $nin: [...SEX_CODES] } });
+
+    for await (const record of cursor) {
+      const sex = typeof record.sex === 'string' ? normalizeSex(record.sex) : undefined;
+      if (sex) {
+        await IDData.collection.updateOne({ _id: record._id }, { $set: { sex } });
+      } else {
+        Logger.warn(`Record ${record._id}: moving unrecognized sex "${record.sex}" to legacySex`);
+        await IDData.collection.updateOne({ _id: record._id }, { $set: { legacySex: record.sex }, $unset: { sex: '' } });
+      }
+      modifiedCount++;
+    }
+
+    return modifiedCount;
+  }
+};
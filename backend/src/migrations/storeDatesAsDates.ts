@@ -0,0 +1,49 @@
+import { IDData } from '../models/IDData.js';
+import { Logger } from '../services/logger.js';
+import { DATE_FIELDS, dateOrderFor, isoToDate, parseDocumentDate } from '../shared/dates.js';
+import { DataMigration } from './index.js';
+
+const legacyField = (field: string): string => `legacy${field[0].toUpperCase()}${field.substring(1)}`;
+
+// Records used to store dob/issueDate/expirationDate as YYYY-MM-DD or MM/DD/YYYY strings. Strings
+// that aren't dates are moved to legacyDob/legacyIssueDate/legacyExpirationDate for a reviewer to fix.
+export const storeDatesAsDates: DataMigration = {
+  name: '001-store-dates-as-dates',
+  description: 'Convert dob, issueDate and expirationDate strings to Date values',
+  async up() {
+    let modifiedCount = 0;
+    // Work on the raw collection: the model now casts these fields to Date
+    const cursor = IDData.collection.find({ $or: DATE_FIELDS.map(field => ({ [field]: { $type: 'string' } })) });
+
+    for await (const record of cursor) {
+      const order = dateOrderFor(record.issuingJurisdiction);
+      const set: { [field: string]: Date | string } = {};
+      const unset: { [field: string]: '' } = {};
+
+      DATE_FIELDS.forEach(field => {
+        if (typeof record[field] !== 'string') {
+          return;
+        }
+        const iso = parseDocumentDate(record[field], { order, past: field === 'dob' });
+        if (iso) {
+          set[field] = isoToDate(iso);
+        } else {
+          // Only empty strings should get here; the old validator accepted nothing else
+          if (record[field].trim()) {
+            Logger.warn(`Record ${record._id}: moving unreadable ${field} "${record[field]}" to ${legacyField(field)}`);
+            set[legacyField(field)] = record[field];
+          }
+          unset[field] = '';
+        }
+      });
+
+      await IDData.collection.updateOne({ _id: record._id }, {
+        ...(Object.keys(set).length > 0 && { $set: set }),
+        ...(Object.keys(unset).length > 0 && { $unset: unset })
+      });
+      modifiedCount++;
+    }
+
+    return modifiedCount;
+  }
+};
@@ -0,0 +1,167 @@
+import { ValidityStatus } from '../shared/validity.js';
+
+// Document fields an OCR provider can extract
+export const ID_FIELDS = [
+  'id',
+  'lastName',
+  'firstName',
+  'middleName',
+  'middleInitial',
+  'suffix',
+  'preferredName',
+  'addressStreet',
+  'addressCity',
+  'addressState',
+  'addressZip',
+  'addressCountry',
+  'sex',
+  'dob',
+  'issueDate',
+  'expirationDate',
+  'documentClass',
+  'endorsements',
+  'restrictions',
+  'height',
+  'weight',
+  'eyeColor',
+  'hairColor',
+  'organDonor'
+] as const;
+
+export type IDField = typeof ID_FIELDS[number];
+
+// Confidence (0-1) for each extracted field
+export type FieldConfidence = Partial<Record<IDField, number>>;
+
+// Region of the image a field was read from, as fractions (0-1) of the image width and height
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type FieldRegions = Partial<Record<IDField, BoundingBox>>;
+
+// Where a field value came from: printed text read by OCR, a PDF417 barcode or a passport/ID-card MRZ
+export const FIELD_SOURCES = ['ocr', 'barcode', 'mrz'] as const;
+
+export type FieldSource = typeof FIELD_SOURCES[number];
+
+export type FieldSources = Partial<Record<IDField, FieldSource>>;
+
+// Name and address fields some documents print in a non-Latin script (Cyrillic, Arabic, Greek, CJK, ...)
+export const NATIVE_SCRIPT_FIELDS = [
+  'lastName',
+  'firstName',
+  'middleName',
+  'addressStreet',
+  'addressCity',
+  'addressState'
+] as const;
+
+export type NativeScriptField = typeof NATIVE_SCRIPT_FIELDS[number];
+
+// Values as printed in a non-Latin script; the fields themselves hold the Latin rendering
+export type NativeScriptText = Partial<Record<NativeScriptField, string>> & {
+  // ISO 15924 code of the script, e.g. "Cyrl", "Arab", "Grek", "Hani"
+  script?: string;
+};
+
+// Kinds of document the classifier distinguishes; 'unknown' falls back to the generic prompt and rules
+export const DOCUMENT_TYPES = [
+  'drivers_license',
+  'state_id',
+  'passport',
+  'passport_card',
+  'permanent_resident_card',
+  'military_id',
+  'unknown'
+] as const;
+
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+export interface DocumentClassification {
+  documentType: DocumentType;
+  // Two-letter state/province code for US and Canadian documents, ISO 3166 alpha-3 country code otherwise
+  issuingJurisdiction?: string;
+}
+
+// Whether a document is currently usable (see shared/validity)
+export { VALIDITY_STATUSES } from '../shared/validity.js';
+export type { ValidityStatus } from '../shared/validity.js';
+
+// Machine-readable sources that printed text is cross-checked against
+export type MachineSource = Exclude<FieldSource, 'ocr'>;
+
+// Which value the reviewer kept for a mismatched field
+export const DISCREPANCY_RESOLUTIONS = ['printed', 'machine'] as const;
+
+export type DiscrepancyResolution = typeof DISCREPANCY_RESOLUTIONS[number];
+
+// A field whose printed value disagrees with the barcode or MRZ
+export interface Discrepancy {
+  field: IDField;
+  source: MachineSource;
+  printedValue: string;
+  machineValue: string;
+  // Human-readable summary, e.g. "DOB printed 1990-03-04, barcode 1990-04-03"
+  message: string;
+  resolution?: DiscrepancyResolution;
+}
+
+export interface ExtractedIDData {
+  id?: string;
+  lastName?: string;
+  firstName?: string;
+  // All middle names; middleInitial is derived from it
+  middleName?: string;
+  middleInitial?: string;
+  // Generational suffix: JR, SR or a roman numeral
+  suffix?: string;
+  // Nickname printed alongside the legal name
+  preferredName?: string;
+  addressStreet?: string;
+  addressCity?: string;
+  addressState?: string;
+  // In the country's printed form (see shared/postalCodes)
+  addressZip?: string;
+  // ISO 3166 alpha-2 code
+  addressCountry?: string;
+  // M, F, X or U (see shared/sex)
+  sex?: string;
+  dob?: string;
+  issueDate?: string;
+  expirationDate?: string;
+  // License class (e.g. "C"), endorsement and restriction codes as printed
+  documentClass?: string;
+  endorsements?: string;
+  restrictions?: string;
+  // As printed, e.g. 5'-08" or 173 cm
+  height?: string;
+  // As printed, e.g. 150 lb or 68 kg
+  weight?: string;
+  // ANSI D-20 color codes where available (BRO, BLU, BLK, ...)
+  eyeColor?: string;
+  hairColor?: string;
+  organDonor?: boolean;
+  validityStatus?: ValidityStatus;
+  documentType?: DocumentType;
+  issuingJurisdiction?: string;
+  // Overall confidence, averaged from fieldConfidence
+  confidence?: number;
+  fieldConfidence?: FieldConfidence;
+  fieldRegions?: FieldRegions;
+  fieldSources?: FieldSources;
+  nativeScript?: NativeScriptText;
+  // Where the holder's portrait photo is on the (front) image, cropped by PortraitService
+  portraitRegion?: BoundingBox;
+  // Raw machine-readable zone lines read by the OCR provider, parsed by MrzParser
+  mrzLines?: string[];
+  // False when any MRZ check digit failed; undefined when the document has no MRZ
+  mrzValid?: boolean;
+  mrzFailedChecks?: string[];
+  // Prompt templates (e.g. "extract.v1+passport.v1") and model that read the printed text
+  promptVersion?: string;
+  ocrModel?: string;
+}
@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ExtractionResult } from '../services/extractionService.js';
+
+// A stored extraction result, reused when the same image is uploaded again
+export interface IExtractionCache extends Document {
+  key: string;
+  imageHash: string;
+  provider: string;
+  // Named ocrModel because Document already has a `model` method
+  ocrModel: string;
+  promptVersion: string;
+  // The full result, so cache hits also return the barcode, MRZ and discrepancies
+  result: ExtractionResult;
+  hits: number;
+  expiresAt: Date;
+}
+
+const ExtractionCacheSchema: Schema = new Schema({
+  // Hash of the image hash, provider, model and prompt version
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  imageHash: {
+    type: String,
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  ocrModel: {
+    type: String,
+    required: true
+  },
+  promptVersion: {
+    type: String,
+    required: true
+  },
+  // ExtractionResult as returned by ExtractionService
+  result: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  hits: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// MongoDB removes entries once expiresAt has passed
+ExtractionCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const ExtractionCache = mongoose.model<IExtractionCache>('ExtractionCache', ExtractionCacheSchema);
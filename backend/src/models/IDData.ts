@@ -1,25 +1,87 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import {
+  Discrepancy,
+  DISCREPANCY_RESOLUTIONS,
+  DOCUMENT_TYPES,
+  DocumentType,
+  FIELD_SOURCES,
+  ID_FIELDS,
+  NATIVE_SCRIPT_FIELDS,
+  NativeScriptText,
+  VALIDITY_STATUSES,
+  ValidityStatus
+} from './ExtractedIDData.js';
+import { ValidityService } from '../services/validityService.js';
+import { isValidPostalCode } from '../shared/postalCodes.js';
+import { DATE_FIELDS, toIsoDate, validateDates } from '../shared/dates.js';
+import { normalizeSex, SEX_CODES } from '../shared/sex.js';
+import { NameParser } from '../services/nameParser.js';
+import { TransliterationService } from '../services/transliterationService.js';
 
 export interface IIDData extends Document {
   // Personal Information
   id?: string;
   lastName: string;
   firstName: string;
+  middleName?: string;
+  // Derived from middleName on save; records from before middleName was stored only have this
   middleInitial?: string;
+  suffix?: string;
+  preferredName?: string;
 
   // Address Information
   addressStreet?: string;
   addressCity?: string;
   addressState?: string;
   addressZip?: string;
+  addressCountry?: string;
 
   // Additional Information
   sex?: string;
-  dob?: string;
+  dob?: Date;
+
+  // License Information
+  issueDate?: Date;
+  expirationDate?: Date;
+  documentClass?: string;
+  endorsements?: string;
+  restrictions?: string;
+  height?: string;
+  weight?: string;
+  eyeColor?: string;
+  hairColor?: string;
+  organDonor?: boolean;
+
+  // Validity, derived from issueDate/expirationDate on save
+  validityStatus?: ValidityStatus;
+  validFrom?: Date;
+  expiresAt?: Date;
+
+  // Document Information
+  documentType?: DocumentType;
+  issuingJurisdiction?: string;
+  // Names and address as printed in a non-Latin script, next to the Latin fields above
+  nativeScript?: NativeScriptText;
 
   // Metadata
   confidence?: number;
+  fieldConfidence?: Map<string, number>;
+  fieldSources?: Map<string, string>;
+  mrzValid?: boolean;
+  mrzFailedChecks?: string[];
+  discrepancies?: Discrepancy[];
   sourceFileName?: string;
+  processedImage?: string;
+  processedBackImage?: string;
+  // Thumbnail of the holder's photo, served by GET /api/id/portraits/:fileName
+  portraitImage?: string;
+  promptVersion?: string;
+  ocrModel?: string;
+  // Stored values that data migrations couldn't convert, kept as they were for a reviewer to re-enter
+  legacyDob?: string;
+  legacyIssueDate?: string;
+  legacyExpirationDate?: string;
+  legacySex?: string;
   extractedAt: Date;
   lastModified: Date;
   isManuallyEdited: boolean;
@@ -44,6 +106,11 @@ const IDDataSchema: Schema = new Schema({
     trim: true,
     maxlength: 100
   },
+  middleName: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
   middleInitial: {
     type: String,
     trim: true,
@@ -56,6 +123,18 @@ const IDDataSchema: Schema = new Schema({
       message: 'Middle initial must be a single letter'
     }
   },
+  // Generational suffix: JR, SR or a roman numeral
+  suffix: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 10
+  },
+  preferredName: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
 
   // Address Information
   addressStreet: {
@@ -73,37 +152,127 @@ const IDDataSchema: Schema = new Schema({
     trim: true,
     maxlength: 50
   },
+  // Checked against the address country's format; any listed format when there is no country
   addressZip: {
     type: String,
     trim: true,
     maxlength: 20,
     validate: {
       validator: function(v: string) {
-        return !v || /^\d{5}(-\d{4})?$/.test(v);
+        return !v || isValidPostalCode(v, this.addressCountry);
       },
-      message: 'Invalid ZIP code format'
+      message: 'Invalid postal code for the address country'
     }
   },
+  // ISO 3166 alpha-2 code
+  addressCountry: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z]{2}$/, 'Country must be a 2-letter ISO 3166 code']
+  },
 
   // Additional Information
+  // Stored as one of SEX_CODES; spelled-out values are converted on assignment
   sex: {
     type: String,
-    enum: ['M', 'F', 'Male', 'Female'],
-    uppercase: true,
-    trim: true
+    enum: SEX_CODES,
+    set: (v: string) => normalizeSex(v) || v
   },
+  // Dates are stored as UTC midnight; see pre('validate') for the checks
   dob: {
+    type: Date,
+    default: undefined
+  },
+
+  // License Information
+  issueDate: {
+    type: Date,
+    default: undefined
+  },
+  expirationDate: {
+    type: Date,
+    default: undefined
+  },
+  documentClass: {
     type: String,
     trim: true,
-    validate: {
-      validator: function(v: string) {
-        if (!v) return true;
-        // Accept YYYY-MM-DD, MM/DD/YYYY, or other common formats
-        const dateRegex = /^(\d{4}-\d{2}-\d{2}|\d{2}\/\d{2}\/\d{4})$/;
-        return dateRegex.test(v);
-      },
-      message: 'Invalid date format. Use YYYY-MM-DD or MM/DD/YYYY'
-    }
+    uppercase: true,
+    maxlength: 10
+  },
+  endorsements: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  restrictions: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 50
+  },
+  height: {
+    type: String,
+    trim: true,
+    maxlength: 20
+  },
+  weight: {
+    type: String,
+    trim: true,
+    maxlength: 20
+  },
+  eyeColor: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 20
+  },
+  hairColor: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 20
+  },
+  organDonor: {
+    type: Boolean,
+    default: undefined
+  },
+
+  // Validity. The status is a snapshot taken on save; validFrom/expiresAt are kept as dates so
+  // queries can work out the current status (see ValidityService.buildQuery)
+  validityStatus: {
+    type: String,
+    enum: VALIDITY_STATUSES,
+    default: 'unknown'
+  },
+  validFrom: {
+    type: Date,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+
+  // Document Information
+  documentType: {
+    type: String,
+    enum: DOCUMENT_TYPES,
+    default: undefined
+  },
+  issuingJurisdiction: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: 3
+  },
+  nativeScript: {
+    type: new Schema({
+      script: { type: String, trim: true, match: /^[A-Z][a-z]{3}$/ },
+      ...Object.fromEntries(NATIVE_SCRIPT_FIELDS.map(field => [field, { type: String, trim: true, maxlength: 200 }]))
+    }, { _id: false }),
+    default: undefined
   },
 
   // Metadata
@@ -113,11 +282,86 @@ const IDDataSchema: Schema = new Schema({
     max: 1,
     default: null
   },
+  fieldConfidence: {
+    type: Map,
+    of: {
+      type: Number,
+      min: 0,
+      max: 1
+    },
+    default: undefined
+  },
+  fieldSources: {
+    type: Map,
+    of: {
+      type: String,
+      enum: FIELD_SOURCES
+    },
+    default: undefined
+  },
+  // Set when the document had a machine-readable zone; false flags failed check digits
+  mrzValid: {
+    type: Boolean,
+    default: undefined
+  },
+  mrzFailedChecks: {
+    type: [String],
+    default: undefined
+  },
+  // Printed values that disagreed with the barcode/MRZ, and which one the reviewer kept
+  discrepancies: {
+    type: [{
+      _id: false,
+      field: { type: String, enum: ID_FIELDS, required: true },
+      source: { type: String, enum: FIELD_SOURCES, required: true },
+      printedValue: { type: String, required: true },
+      machineValue: { type: String, required: true },
+      message: { type: String },
+      resolution: { type: String, enum: DISCREPANCY_RESOLUTIONS }
+    }],
+    default: undefined
+  },
   sourceFileName: {
     type: String,
     trim: true,
     maxlength: 255
   },
+  // File name of the preprocessed image under the processed image directory (see ImagePreprocessingService)
+  processedImage: {
+    type: String,
+    trim: true,
+    maxlength: 255,
+    match: [/^[\w.-]+\.jpg$/, 'Invalid processed image name']
+  },
+  processedBackImage: {
+    type: String,
+    trim: true,
+    maxlength: 255,
+    match: [/^[\w.-]+\.jpg$/, 'Invalid processed image name']
+  },
+  // File name of the portrait thumbnail under the portrait directory (see PortraitService)
+  portraitImage: {
+    type: String,
+    trim: true,
+    maxlength: 255,
+    match: [/^[\w.-]+-portrait\.jpg$/, 'Invalid portrait image name']
+  },
+  // Prompt templates and model that produced the OCR values, to trace accuracy changes to a prompt or model change
+  promptVersion: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  ocrModel: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  // Stored values that data migrations couldn't convert (see src/migrations), kept as they were
+  legacyDob: { type: String },
+  legacyIssueDate: { type: String },
+  legacyExpirationDate: { type: String },
+  legacySex: { type: String },
   extractedAt: {
     type: Date,
     default: Date.now
@@ -145,10 +389,41 @@ IDDataSchema.index({ lastName: 1, firstName: 1 });
 IDDataSchema.index({ id: 1 });
 IDDataSchema.index({ extractedAt: -1 });
 IDDataSchema.index({ isManuallyEdited: 1 });
+IDDataSchema.index({ documentType: 1 });
+IDDataSchema.index({ expiresAt: 1 });
+IDDataSchema.index({ validFrom: 1 });
+IDDataSchema.index({ promptVersion: 1 });
+// Looked up when removing the images of uploads that were never saved
+IDDataSchema.index({ processedImage: 1 });
+IDDataSchema.index({ processedBackImage: 1 });
+IDDataSchema.index({ portraitImage: 1 });
 
-// Pre-save middleware to update lastModified
+// Keep the middle initial in step with the full middle name
+IDDataSchema.pre('validate', function(next) {
+  if (this.middleName) {
+    this.middleInitial = NameParser.middleInitial(this.middleName as string);
+  }
+  next();
+});
+
+// Reject impossible dates (future birth dates, ages over 120, documents expiring before they were issued)
+IDDataSchema.pre('validate', function(next) {
+  const dates = Object.fromEntries(DATE_FIELDS
+    .filter(field => this[field] instanceof Date && !isNaN((this[field] as Date).getTime()))
+    .map(field => [field, toIsoDate(this[field] as Date)]));
+  validateDates(dates).forEach(issue => this.invalidate(issue.field, issue.message, this[issue.field]));
+  next();
+});
+
+// Pre-save middleware to update lastModified and the validity status
 IDDataSchema.pre('save', function(next) {
   this.lastModified = new Date();
+  if (this.isNew || this.isModified('issueDate') || this.isModified('expirationDate')) {
+    const dates = { issueDate: this.issueDate as Date, expirationDate: this.expirationDate as Date };
+    this.validityStatus = ValidityService.computeStatus(dates);
+    this.validFrom = ValidityService.parseDate(dates.issueDate);
+    this.expiresAt = ValidityService.parseDate(dates.expirationDate);
+  }
   if (this.isModified('lastName') || this.isModified('firstName') ||
       this.isModified('id') || this.isModified('addressStreet')) {
     this.isManuallyEdited = true;
@@ -158,11 +433,19 @@ IDDataSchema.pre('save', function(next) {
 
 // Static method to find by ID or name
 IDDataSchema.statics.findBySearchTerm = function(searchTerm: string) {
+  const latinTerm = TransliterationService.isNonLatin(searchTerm) && TransliterationService.toLatin(searchTerm);
   return this.find({
     $or: [
       { id: { $regex: searchTerm, $options: 'i' } },
       { lastName: { $regex: searchTerm, $options: 'i' } },
-      { firstName: { $regex: searchTerm, $options: 'i' } }
+      { firstName: { $regex: searchTerm, $options: 'i' } },
+      { preferredName: { $regex: searchTerm, $options: 'i' } },
+      // Names and address as printed in a non-Latin script, and the Latin names for a term typed in one
+      ...NATIVE_SCRIPT_FIELDS.map(field => ({ [`nativeScript.${field}`]: { $regex: searchTerm, $options: 'i' } })),
+      ...(latinTerm ? [
+        { lastName: { $regex: latinTerm, $options: 'i' } },
+        { firstName: { $regex: latinTerm, $options: 'i' } }
+      ] : [])
     ]
   }).sort({ extractedAt: -1 });
 };
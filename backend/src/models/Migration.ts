@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A data migration that has been applied to this database
+export interface IMigration extends Document {
+  name: string;
+  description?: string;
+  appliedAt: Date;
+  // Documents the migration changed
+  modifiedCount?: number;
+}
+
+const MigrationSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  description: {
+    type: String
+  },
+  appliedAt: {
+    type: Date,
+    default: Date.now
+  },
+  modifiedCount: {
+    type: Number
+  }
+});
+
+export const Migration = mongoose.model<IMigration>('Migration', MigrationSchema);
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { imageController } from '../controllers/imageController.js';
+
+const router = Router();
+
+// GET /api/id/images/:fileName - Get a processed ID image (signed link)
+router.get('/images/:fileName', imageController.getProcessedImage);
+
+// GET /api/id/portraits/:fileName - Get a portrait thumbnail (signed link)
+router.get('/portraits/:fileName', imageController.getPortrait);
+
+export { router as imageRoutes };
@@ -9,6 +9,9 @@ router.post('/save', saveController.saveData);
 // GET /api/id - Get all ID data (with pagination)
 router.get('/', saveController.getAllData);
 
+// GET /api/id/export - Export ID data as CSV
+router.get('/export', saveController.exportData);
+
 // GET /api/id/search - Search ID data
 router.get('/search', saveController.searchData);
 
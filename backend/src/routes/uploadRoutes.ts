@@ -4,7 +4,11 @@ import { uploadController } from '../controllers/uploadController.js';
 
 const router = Router();
 
-// POST /api/id/upload - Upload and process ID image
-router.post('/upload', upload.single('idImage'), uploadController.uploadAndExtract);
+// POST /api/id/upload - Upload and process ID image, either as "idImage" or as "front" and "back"
+router.post('/upload', upload.fields([
+  { name: 'idImage', maxCount: 1 },
+  { name: 'front', maxCount: 1 },
+  { name: 'back', maxCount: 1 }
+]), uploadController.uploadAndExtract);
 
 export { router as uploadRoutes };
\ No newline at end of file
@@ -0,0 +1,234 @@
+import { ExtractedIDData } from '../models/ExtractedIDData.js';
+import { normalizeCountry, normalizePostalCode } from '../shared/postalCodes.js';
+import { normalizeSex } from '../shared/sex.js';
+import { NameParser, NameParts } from './nameParser.js';
+
+export interface AamvaSubfile {
+  // "DL", "ID" or a jurisdiction-specific "Z?" subfile
+  type: string;
+  elements: { [elementId: string]: string };
+}
+
+export interface AamvaRecord {
+  // Issuer identification number (636xxx) of the issuing jurisdiction
+  issuerId: string;
+  // AAMVA card design standard version (0-10)
+  version: number;
+  jurisdictionVersion?: number;
+  subfiles: AamvaSubfile[];
+  // Elements of the DL/ID subfile(s)
+  elements: { [elementId: string]: string };
+  // Elements of the jurisdiction "Z" subfiles, keyed by element ID (e.g. "ZCA")
+  jurisdictionElements: { [elementId: string]: string };
+}
+
+const DESIGNATOR_LENGTH = 10;
+
+export class AamvaParser {
+  // True when the text carries the AAMVA compliance indicator and file type
+  static isAamva(text: string): boolean {
+    return /^@\s*\x1e?\s*(ANSI |AAMVA)/.test(text);
+  }
+
+  static parse(text: string): AamvaRecord {
+    const headerMatch = text.match(/^@\s*\x1e?\s*(?:ANSI |AAMVA)(\d{6})(\d{2})/);
+    if (!headerMatch) {
+      throw new Error('Not an AAMVA barcode');
+    }
+
+    const issuerId = headerMatch[1];
+    const version = parseInt(headerMatch[2], 10);
+    let cursor = headerMatch[0].length;
+
+    // Version 1 has no jurisdiction version field before the entry count
+    let jurisdictionVersion: number | undefined;
+    if (version >= 2) {
+      jurisdictionVersion = parseInt(text.substr(cursor, 2), 10);
+      cursor += 2;
+    }
+
+    const entryCount = parseInt(text.substr(cursor, 2), 10) || 1;
+    cursor += 2;
+
+    const designators: { type: string; offset: number; length: number }[] = [];
+    for (let i = 0; i < entryCount; i++) {
+      const designator = text.substr(cursor + i * DESIGNATOR_LENGTH, DESIGNATOR_LENGTH);
+      const match = designator.match(/^([A-Z]{2})(\d{4})(\d{4})$/);
+      if (!match) {
+        break;
+      }
+      designators.push({ type: match[1], offset: parseInt(match[2], 10), length: parseInt(match[3], 10) });
+    }
+    const headerEnd = cursor + designators.length * DESIGNATOR_LENGTH;
+
+    const subfiles = designators.map(({ type, offset, length }) => {
+      // Many issuers miscount offsets by a byte or two, so fall back to searching for the type
+      let start = text.substr(offset, 2) === type ? offset : text.indexOf(type, headerEnd);
+      if (start < 0) {
+        start = offset;
+      }
+      const body = text.substr(start + 2, Math.max(length - 2, 0)) || text.substr(start + 2);
+      return { type, elements: this.parseElements(body) };
+    });
+
+    // Some barcodes omit the designators entirely; treat everything after the header as one subfile
+    if (subfiles.length === 0) {
+      const subfileMatch = text.substr(headerEnd).match(/(DL|ID)([\s\S]*)/);
+      if (subfileMatch) {
+        subfiles.push({ type: subfileMatch[1], elements: this.parseElements(subfileMatch[2]) });
+      }
+    }
+
+    const elements: { [elementId: string]: string } = {};
+    const jurisdictionElements: { [elementId: string]: string } = {};
+    subfiles.forEach(subfile => {
+      Object.assign(subfile.type.startsWith('Z') ? jurisdictionElements : elements, subfile.elements);
+    });
+
+    return { issuerId, version, jurisdictionVersion, subfiles, elements, jurisdictionElements };
+  }
+
+  // Map the standard data elements onto ExtractedIDData
+  static toExtractedData(record: AamvaRecord): ExtractedIDData {
+    const { elements } = record;
+    const data: ExtractedIDData = {};
+    const value = (elementId: string) => this.clean(elements[elementId]);
+
+    data.id = value('DAQ');
+
+    // Names: v1 used DAA (full name) / DAB / DAC; v2-3 used DCS + DCT (given names);
+    // v4+ split family (DCS), first (DAC) and middle (DAD) names. DCU is the suffix (JR, 3RD, IV).
+    let names: NameParts = {
+      lastName: value('DCS') || value('DAB'),
+      firstName: value('DAC'),
+      middleName: value('DAD'),
+      suffix: value('DCU')
+    };
+
+    // DCT and DAA carry several names in one element, separated by commas, "$" or spaces
+    if (!names.firstName && value('DCT')) {
+      const [firstName, ...middleNames] = value('DCT')!.split(/[,$ ]+/);
+      names = { ...names, firstName, middleName: names.middleName || middleNames.join(' ') || undefined };
+    } else if (!names.lastName && value('DAA')) {
+      const parsed = NameParser.parseFullName(value('DAA')!);
+      names = { ...parsed, suffix: names.suffix || parsed.suffix };
+    }
+    Object.assign(data, NameParser.normalize(names));
+
+    data.addressStreet = [value('DAG'), value('DAH')].filter(Boolean).join(' ') || undefined;
+    data.addressCity = value('DAI');
+    data.addressState = value('DAJ');
+
+    // DCG is "USA" or "CAN"; older versions omit it
+    data.addressCountry = normalizeCountry(value('DCG'));
+    const zip = (elements.DAK || '').replace(/[^0-9A-Z]/gi, '');
+    if (/^\d{5}/.test(zip) && data.addressCountry !== 'CA') {
+      // ZIPs are padded to nine digits; "0000" means there is no +4 extension
+      const plus4 = zip.substring(5, 9);
+      data.addressZip = /^\d{4}$/.test(plus4) && plus4 !== '0000' ? `${zip.substring(0, 5)}-${plus4}` : zip.substring(0, 5);
+      data.addressCountry = data.addressCountry || 'US';
+    } else if (zip) {
+      data.addressZip = normalizePostalCode(zip, data.addressCountry);
+    }
+
+    // D20 codes: 1 = male, 2 = female, 9 = not specified
+    data.sex = normalizeSex(value('DBC'));
+
+    data.dob = this.parseDate(elements.DBB, record);
+    data.issueDate = this.parseDate(elements.DBD, record);
+    data.expirationDate = this.parseDate(elements.DBA, record);
+
+    // v1 used DAR/DAT/DAS for class, endorsements and restrictions
+    data.documentClass = value('DCA') || value('DAR');
+    data.endorsements = value('DCD') || value('DAT');
+    data.restrictions = value('DCB') || value('DAS');
+
+    data.height = this.parseHeight(value('DAU'));
+    data.weight = this.parseWeight(value('DAW'), value('DAX'));
+    data.eyeColor = value('DAY')?.toUpperCase();
+    data.hairColor = value('DAZ')?.toUpperCase();
+
+    // DDK is "1" for donors; older barcodes may use DBH ("Y"/"N")
+    const donor = value('DDK') || value('DBH');
+    if (donor) {
+      data.organDonor = /^(1|Y)$/i.test(donor);
+    }
+
+    // Drop elements the barcode did not carry
+    (Object.keys(data) as (keyof ExtractedIDData)[]).forEach(key => {
+      if (data[key] === undefined || data[key] === '') {
+        delete data[key];
+      }
+    });
+
+    return data;
+  }
+
+  // Dates are CCYYMMDD in v1 and for Canadian issuers, MMDDCCYY for US issuers in v2+
+  static parseDate(raw: string | undefined, record: AamvaRecord): string | undefined {
+    const digits = (raw || '').replace(/\D/g, '');
+    if (digits.length !== 8) {
+      return undefined;
+    }
+
+    const country = this.clean(record.elements.DCG);
+    const yearFirst = record.version < 2
+      || country === 'CAN'
+      || (!country && /^(19|20)\d{2}(0[1-9]|1[0-2])/.test(digits) && !/^(0[1-9]|1[0-2])/.test(digits));
+
+    const [year, month, day] = yearFirst
+      ? [digits.substring(0, 4), digits.substring(4, 6), digits.substring(6, 8)]
+      : [digits.substring(4, 8), digits.substring(0, 2), digits.substring(2, 4)];
+
+    const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+    if (isNaN(date.getTime()) || date.getUTCDate() !== parseInt(day, 10)) {
+      return undefined;
+    }
+    return `${year}-${month}-${day}`;
+  }
+
+  // DAU is "068 in" (inches) or "173 cm"; v1 barcodes use feet and inches ("508" = 5'08")
+  private static parseHeight(raw: string | undefined): string | undefined {
+    const match = (raw || '').match(/^(\d{2,3})\s*(IN|CM)?$/i);
+    if (!match) {
+      return raw;
+    }
+    const amount = parseInt(match[1], 10);
+    if (match[2]?.toUpperCase() === 'CM') {
+      return `${amount} cm`;
+    }
+    const inches = match[2] ? amount : Math.floor(amount / 100) * 12 + (amount % 100);
+    return `${Math.floor(inches / 12)}'-${String(inches % 12).padStart(2, '0')}"`;
+  }
+
+  // DAW is pounds, DAX kilograms
+  private static parseWeight(pounds: string | undefined, kilograms: string | undefined): string | undefined {
+    const lb = parseInt(pounds || '', 10);
+    if (lb > 0) {
+      return `${lb} lb`;
+    }
+    const kg = parseInt(kilograms || '', 10);
+    return kg > 0 ? `${kg} kg` : undefined;
+  }
+
+  // Elements are separated by LF and the subfile ends with CR
+  private static parseElements(body: string): { [elementId: string]: string } {
+    const elements: { [elementId: string]: string } = {};
+    body.split(/[\n\r]+/).forEach(line => {
+      const match = line.match(/^([A-Z]{3})(.*)$/);
+      if (match && elements[match[1]] === undefined) {
+        elements[match[1]] = match[2].trim();
+      }
+    });
+    return elements;
+  }
+
+  private static clean(value: string | undefined): string | undefined {
+    const trimmed = (value || '').trim();
+    // "NONE" and "unavl" mark truncated or unavailable values
+    if (!trimmed || /^(NONE|UNAVL)$/i.test(trimmed)) {
+      return undefined;
+    }
+    return trimmed;
+  }
+}
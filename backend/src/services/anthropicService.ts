@@ -1,49 +1,85 @@
 import Anthropic from '@anthropic-ai/sdk';
 import fs from 'fs';
 import { createError } from '../middleware/errorHandler.js';
-
-// Initialize Anthropic client
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || '',
-});
-
-export interface ExtractedIDData {
-  id?: string;
-  lastName?: string;
-  firstName?: string;
-  middleInitial?: string;
-  addressStreet?: string;
-  addressCity?: string;
-  addressState?: string;
-  addressZip?: string;
-  sex?: string;
-  dob?: string;
-  confidence?: number;
-}
+import { DocumentClassification, DocumentType, ExtractedIDData } from '../models/ExtractedIDData.js';
+import { OcrProvider } from './ocrProvider.js';
+import { NormalizationService } from './normalizationService.js';
+import { DocumentClassificationService } from './documentClassificationService.js';
+import { classificationResponseSchema, ocrResponseSchema, parseToolInput, toolFromSchema } from './ocrResponseSchema.js';
+import { RetryService } from './retryService.js';
+import { CircuitBreaker } from './circuitBreaker.js';
+import { PromptService } from './promptService.js';
+
+const EXTRACTION_TOOL_NAME = 'record_id_fields';
+const CLASSIFICATION_TOOL_NAME = 'record_document_type';
+
+const EXTRACTION_TOOL = toolFromSchema(
+  EXTRACTION_TOOL_NAME,
+  'Record the fields read from an identity document, with per-field confidence and image regions',
+  ocrResponseSchema
+);
+const CLASSIFICATION_TOOL = toolFromSchema(
+  CLASSIFICATION_TOOL_NAME,
+  'Record the type and issuing jurisdiction of an identity document',
+  classificationResponseSchema
+);
+
+let anthropic: Anthropic | null = null;
+
+const DEFAULT_MODEL = 'claude-3-opus-20240229';
+
+// Model used for classification and extraction; set ANTHROPIC_MODEL to try another
+const getModel = (): string => process.env.ANTHROPIC_MODEL || DEFAULT_MODEL;
+
+// Rate limits, overload and server errors are worth retrying, as are dropped connections (no status)
+const RETRYABLE_STATUSES = [408, 409, 429, 500, 502, 503, 504, 529];
+const isTransientError = (error: any): boolean =>
+  error instanceof Anthropic.APIError && (error.status === undefined || RETRYABLE_STATUSES.includes(error.status));
+
+// Opens after repeated transient failures; a rejected key or bad request says nothing about availability
+const circuitBreaker = new CircuitBreaker('Anthropic OCR', isTransientError);
+
+// Create the Anthropic client on first use so other providers can run without an API key
+const getClient = (): Anthropic => {
+  if (!anthropic) {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw createError('ANTHROPIC_API_KEY is not configured. Set it or choose another OCR_PROVIDER.', 500);
+    }
+    // Retries are handled by RetryService so they share the configured policy and circuit breaker
+    anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY, maxRetries: 0 });
+  }
+  return anthropic;
+};
 
 export class AnthropicService {
-  private static readonly OCR_PROMPT = `
-Please extract text from this ID document and organize it into the following fields.
-If a field is not present or cannot be read, omit it rather than guessing.
-
-Required fields to extract:
-- ID Number: Any identification number shown on the document
-- Last Name: Person's family name/surname
-- First Name: Person's given name
-- Middle Initial: Middle name initial (if present)
-- Address Street: Street address line
-- Address City: City name
-- Address State: State/Province name
-- Address Zip: ZIP/Postal code
-- Sex: Gender (M/F/Male/Female)
-- DOB: Date of birth (in YYYY-MM-DD format if possible)
-
-Please respond with a JSON object containing only these fields.
-Be precise and extract exactly what's written on the document.
-If text is unclear or missing, do not include that field in your response.
-`;
-
-  static async extractTextFromImage(imagePath: string): Promise<ExtractedIDData> {
+  static async classifyDocument(imagePath: string): Promise<DocumentClassification> {
+    const prompt = PromptService.getClassificationPrompt({ toolName: CLASSIFICATION_TOOL_NAME });
+    const input = await this.sendImagePrompt(imagePath, prompt.text, 256, CLASSIFICATION_TOOL);
+    return DocumentClassificationService.normalize(parseToolInput(classificationResponseSchema, input));
+  }
+
+  static async extractTextFromImage(imagePath: string, documentType?: DocumentType): Promise<ExtractedIDData> {
+    // The generic extraction prompt, plus guidance for the document type when the manifest has some
+    const prompt = PromptService.getExtractionPrompt(documentType, { toolName: EXTRACTION_TOOL_NAME });
+    const model = getModel();
+    const input = await this.sendImagePrompt(imagePath, prompt.text, 1024, EXTRACTION_TOOL, model);
+
+    // Reject replies that don't match the tool schema, then normalize values
+    return {
+      ...NormalizationService.normalizeExtractedData(parseToolInput(ocrResponseSchema, input)),
+      promptVersion: prompt.version,
+      ocrModel: model
+    };
+  }
+
+  // Send the image with a prompt, require the model to answer by calling `tool` and return the tool input
+  private static async sendImagePrompt(
+    imagePath: string,
+    prompt: string,
+    maxTokens: number,
+    tool: Anthropic.Tool,
+    model: string = getModel()
+  ): Promise<unknown> {
     try {
       // Read and encode image
       const imageBuffer = fs.readFileSync(imagePath);
@@ -56,10 +92,12 @@ If text is unclear or missing, do not include that field in your response.
         throw createError('Unsupported file format for OCR', 400);
       }
 
-      // Call Anthropic API
-      const response = await anthropic.messages.create({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 1024,
+      // Call Anthropic API, retrying transient failures unless the circuit is open
+      const response = await circuitBreaker.execute(() => RetryService.run(() => getClient().messages.create({
+        model,
+        max_tokens: maxTokens,
+        tools: [tool],
+        tool_choice: { type: 'tool', name: tool.name },
         messages: [
           {
             role: 'user',
@@ -74,34 +112,21 @@ If text is unclear or missing, do not include that field in your response.
               },
               {
                 type: 'text',
-                text: this.OCR_PROMPT
+                text: prompt
               }
             ]
           }
         ]
-      });
-
-      // Extract and parse the response
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw createError('Invalid response format from OCR service', 500);
+      }), isTransientError));
+
+      // The forced tool call carries the structured reply
+      const toolUse = response.content.find(
+        (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === tool.name
+      );
+      if (!toolUse) {
+        throw createError('OCR service did not return structured output', 502);
       }
-
-      // Parse JSON from response
-      const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw createError('Could not parse OCR response', 500);
-      }
-
-      let extractedData: ExtractedIDData;
-      try {
-        extractedData = JSON.parse(jsonMatch[0]);
-      } catch (parseError) {
-        throw createError('Failed to parse OCR JSON response', 500);
-      }
-
-      // Normalize field names and clean data
-      return this.normalizeExtractedData(extractedData);
+      return toolUse.input;
 
     } catch (error: any) {
       console.error('Anthropic OCR error:', error);
@@ -110,7 +135,7 @@ If text is unclear or missing, do not include that field in your response.
         throw createError('Invalid Anthropic API key', 500);
       } else if (error.status === 429) {
         throw createError('OCR service rate limit exceeded. Please try again later.', 503);
-      } else if (error.status === 500) {
+      } else if (isTransientError(error)) {
         throw createError('OCR service temporarily unavailable', 503);
       }
 
@@ -128,66 +153,23 @@ If text is unclear or missing, do not include that field in your response.
         return 'image/png';
       case 'webp':
         return 'image/webp';
-      // Note: PDF not directly supported by Anthropic API
-      // Would need PDF to image conversion for full support
+      // PDFs are rendered to PNG by PdfConversionService before OCR
       default:
         return null;
     }
   }
+}
 
-  private static normalizeExtractedData(data: any): ExtractedIDData {
-    const normalized: ExtractedIDData = {};
-
-    // Map various possible field names to our standard names
-    const fieldMappings: { [key: string]: string } = {
-      'id': 'id',
-      'id_number': 'id',
-      'identification': 'id',
-      'license': 'id',
-      'last_name': 'lastName',
-      'surname': 'lastName',
-      'family_name': 'lastName',
-      'first_name': 'firstName',
-      'given_name': 'firstName',
-      'middle_initial': 'middleInitial',
-      'middle_name': 'middleInitial',
-      'address_street': 'addressStreet',
-      'street': 'addressStreet',
-      'address': 'addressStreet',
-      'address_city': 'addressCity',
-      'city': 'addressCity',
-      'address_state': 'addressState',
-      'state': 'addressState',
-      'address_zip': 'addressZip',
-      'zip': 'addressZip',
-      'zipcode': 'addressZip',
-      'postal_code': 'addressZip',
-      'sex': 'sex',
-      'gender': 'sex',
-      'dob': 'dob',
-      'date_of_birth': 'dob',
-      'birth_date': 'dob'
-    };
-
-    // Apply mappings and clean data
-    Object.keys(data).forEach(key => {
-      const normalizedKey = fieldMappings[key.toLowerCase().replace(/\s+/g, '_')];
-      if (normalizedKey && data[key]) {
-        let value = String(data[key]).trim();
-
-        // Clean up common formatting issues
-        if (normalizedKey === 'middleInitial') {
-          value = value.toUpperCase().substring(0, 1);
-        } else if (normalizedKey === 'sex') {
-          value = value.toLowerCase().startsWith('m') ? 'M' : 'F';
-        } else if (normalizedKey === 'addressZip') {
-          value = value.replace(/\D/g, '').substring(0, 5);
-        }
-
-  (normalized as any)[normalizedKey] = value;
-      }
-    });
-
-    return normalized;
-  }
-}
\ No newline at end of file
+export const anthropicOcrProvider: OcrProvider = {
+  name: 'anthropic',
+  get model() {
+    return getModel();
+  },
+  // Covers the tool schemas too, since they shape the reply as much as the prompt text
+  get promptVersion() {
+    return PromptService.getFingerprint([EXTRACTION_TOOL, CLASSIFICATION_TOOL]);
+  },
+  circuitBreaker,
+  classify: ({ imagePath }) => AnthropicService.classifyDocument(imagePath),
+  extract: ({ imagePath, documentType }) => AnthropicService.extractTextFromImage(imagePath, documentType)
+};
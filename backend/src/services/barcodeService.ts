@@ -0,0 +1,65 @@
+import sharp from 'sharp';
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  NotFoundException,
+  PDF417Reader,
+  RGBLuminanceSource
+} from '@zxing/library';
+
+// PDF417 modules are tiny; scanning above this width only slows the detector down
+const MAX_SCAN_WIDTH = 2000;
+
+export class BarcodeService {
+  // Find and decode a PDF417 barcode, returning its raw text or null when none is found
+  static async decodePdf417(imagePath: string): Promise<string | null> {
+    // Apply EXIF orientation and downscale once; sharp allows only one rotation per pipeline
+    const { data, info } = await sharp(imagePath)
+      .rotate()
+      .resize({ width: MAX_SCAN_WIDTH, height: MAX_SCAN_WIDTH, fit: 'inside', withoutEnlargement: true })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    // Backs of licenses are often photographed sideways, so try each orientation
+    for (const angle of [0, 90, 180, 270]) {
+      const rotated = angle === 0
+        ? { data, info }
+        : await sharp(data, { raw: { width: info.width, height: info.height, channels: 1 } })
+          .rotate(angle)
+          .greyscale()
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+
+      const text = this.decodeLuminance(rotated.data, rotated.info.width, rotated.info.height, angle);
+      if (text) {
+        return text;
+      }
+    }
+    return null;
+  }
+
+  private static decodeLuminance(data: Buffer, width: number, height: number, angle: number): string | null {
+    const luminances = new Uint8ClampedArray(data.buffer, data.byteOffset, data.length);
+    const source = new RGBLuminanceSource(luminances, width, height);
+    const bitmap = new BinaryBitmap(new HybridBinarizer(source));
+
+    const hints = new Map<DecodeHintType, any>([
+      [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.PDF_417]],
+      [DecodeHintType.TRY_HARDER, true]
+    ]);
+
+    try {
+      return new PDF417Reader().decode(bitmap, hints).getText();
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return null;
+      }
+      // Checksum/format errors mean a barcode was found but could not be read at this angle
+      console.warn(`PDF417 decode failed at ${angle}°:`, error instanceof Error ? error.name : error);
+      return null;
+    }
+  }
+}
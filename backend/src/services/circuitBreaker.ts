@@ -0,0 +1,110 @@
+import { createError } from '../middleware/errorHandler.js';
+
+// closed: calls go through; open: calls fail fast; half_open: one trial call decides which it returns to
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  // When an open circuit lets the next trial call through
+  retryAt?: string;
+  lastFailure?: string;
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < 1 ? fallback : value;
+};
+
+// Stops calling a provider that keeps failing, so requests fail fast instead of waiting on retries
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private lastFailure?: string;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    // Errors that say nothing about the provider's health (bad input, bad key) don't count as failures
+    private readonly isFailure: (error: any) => boolean = () => true
+  ) {}
+
+  get failureThreshold(): number {
+    return readNumber('OCR_CIRCUIT_FAILURE_THRESHOLD', 5);
+  }
+
+  get resetTimeoutMs(): number {
+    return readNumber('OCR_CIRCUIT_RESET_MS', 30000);
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.beforeCall();
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.onFailure(error);
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    // Report an open circuit whose timeout has passed as ready for a trial call
+    const state = this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs ? 'half_open' : this.state;
+    return {
+      name: this.name,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      ...(state === 'open' && { retryAt: new Date(this.openedAt + this.resetTimeoutMs).toISOString() }),
+      ...(this.lastFailure && { lastFailure: this.lastFailure })
+    };
+  }
+
+  private beforeCall(): void {
+    if (this.state === 'open') {
+      const remaining = this.openedAt + this.resetTimeoutMs - Date.now();
+      if (remaining > 0) {
+        throw createError(
+          `${this.name} is temporarily unavailable after repeated failures. Please try again in ${Math.ceil(remaining / 1000)}s.`,
+          503
+        );
+      }
+      this.state = 'half_open';
+    }
+
+    // Only one trial call while half-open; the rest fail fast until it settles
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        throw createError(`${this.name} is recovering from repeated failures. Please try again shortly.`, 503);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  private onSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  private onFailure(error: any): void {
+    this.consecutiveFailures++;
+    this.lastFailure = error instanceof Error ? error.message : String(error);
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.warn(`Circuit "${this.name}" opened after ${this.consecutiveFailures} consecutive failures`);
+    }
+  }
+}
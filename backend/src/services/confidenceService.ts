@@ -0,0 +1,135 @@
+import { DocumentType, ExtractedIDData, FieldConfidence, ID_FIELDS, IDField } from '../models/ExtractedIDData.js';
+import { ADDRESS_REGIONS, isValidPostalCode, normalizeCountry } from '../shared/postalCodes.js';
+import { DateField, isPlausibleDate, parseDocumentDate } from '../shared/dates.js';
+import { normalizeSex } from '../shared/sex.js';
+
+// Field checks are given the address country, since address formats depend on it
+type FieldCheck = (value: string, addressCountry?: string) => boolean;
+
+// Scores used when a value passes or fails its field's format check
+const PLAUSIBLE_SCORE = 0.85;
+const IMPLAUSIBLE_SCORE = 0.3;
+
+const NAME_PATTERN = /^[A-Za-z][A-Za-z .,'-]*$/;
+
+// Dates are ISO by the time they're scored; other readable formats are accepted too
+const plausibleDate = (field: DateField) => (value: string): boolean => {
+  const iso = parseDocumentDate(value, { past: field === 'dob' });
+  return !!iso && isPlausibleDate(field, iso);
+};
+
+// ANSI D-20 eye and hair color codes, plus the spelled-out names some states print
+const EYE_COLORS = ['BLK', 'BLU', 'BRO', 'GRY', 'GRN', 'HAZ', 'MAR', 'PNK', 'DIC', 'UNK',
+  'BLACK', 'BLUE', 'BROWN', 'GRAY', 'GREY', 'GREEN', 'HAZEL', 'MAROON', 'PINK', 'DICHROMATIC'];
+const HAIR_COLORS = ['BAL', 'BLK', 'BLN', 'BRO', 'GRY', 'RED', 'SDY', 'WHI', 'UNK',
+  'BALD', 'BLACK', 'BLOND', 'BLONDE', 'BROWN', 'GRAY', 'GREY', 'SANDY', 'WHITE'];
+
+// License class, endorsement and restriction codes: short letter/digit codes or "NONE"
+const CODE_LIST_PATTERN = /^(NONE|[A-Z0-9]{1,3}([ ,]+[A-Z0-9]{1,3})*)$/i;
+
+// State or province code for countries listed in ADDRESS_REGIONS (addresses without a country are
+// taken to be US ones); regions of other countries aren't checked
+const isPlausibleRegion = (value: string, addressCountry?: string): boolean => {
+  const regions = ADDRESS_REGIONS[normalizeCountry(addressCountry) || 'US'];
+  return !regions || regions.includes(value.toUpperCase());
+};
+
+// Format checks for each field; a failing value is most likely misread
+const FIELD_CHECKS: Record<IDField, FieldCheck> = {
+  id: (value) => /^[A-Za-z0-9-]{4,20}$/.test(value),
+  lastName: (value) => NAME_PATTERN.test(value),
+  firstName: (value) => NAME_PATTERN.test(value),
+  middleName: (value) => NAME_PATTERN.test(value),
+  middleInitial: (value) => /^[A-Za-z]$/.test(value),
+  suffix: (value) => /^(JR|SR|[IVX]{1,4})$/i.test(value),
+  preferredName: (value) => NAME_PATTERN.test(value),
+  addressStreet: (value) => /^\d+[A-Za-z]?\s+\S/.test(value),
+  addressCity: (value) => /^[A-Za-z][A-Za-z .'-]*$/.test(value),
+  addressState: isPlausibleRegion,
+  addressZip: (value, addressCountry) => isValidPostalCode(value, addressCountry),
+  addressCountry: (value) => /^[A-Z]{2}$/i.test(value),
+  sex: (value) => !!normalizeSex(value),
+  dob: plausibleDate('dob'),
+  issueDate: plausibleDate('issueDate'),
+  expirationDate: plausibleDate('expirationDate'),
+  documentClass: (value) => /^[A-Z0-9]{1,3}$/i.test(value),
+  endorsements: (value) => CODE_LIST_PATTERN.test(value),
+  restrictions: (value) => CODE_LIST_PATTERN.test(value),
+  height: (value) => /^[3-8]'\s*-?\s*(0?\d|1[01])"?$/.test(value) || /^(9\d|1\d\d|2[0-4]\d)\s*cm$/i.test(value),
+  weight: (value) => /^\d{2,3}\s*(lbs?|kg)?$/i.test(value),
+  eyeColor: (value) => EYE_COLORS.includes(value.toUpperCase()),
+  hairColor: (value) => HAIR_COLORS.includes(value.toUpperCase()),
+  organDonor: (value) => value === 'true' || value === 'false'
+};
+
+// Federal documents carry no home address, so an address read from one is most likely a misread
+const noAddress = {
+  addressStreet: () => false,
+  addressCity: () => false,
+  addressState: () => false,
+  addressZip: () => false,
+  addressCountry: () => false
+};
+
+// Checks that replace FIELD_CHECKS for a specific document type
+const DOCUMENT_FIELD_CHECKS: Partial<Record<DocumentType, Partial<Record<IDField, FieldCheck>>>> = {
+  passport: {
+    id: (value) => /^[A-Z0-9]{6,9}$/i.test(value),
+    ...noAddress
+  },
+  passport_card: {
+    // US passport card numbers are "C" followed by eight digits
+    id: (value) => /^C\d{8}$/i.test(value),
+    ...noAddress
+  },
+  permanent_resident_card: {
+    // USCIS number / A-number (8-9 digits) or the 13-character card number (e.g. "SRC1234567890")
+    id: (value) => /^(A-?)?\d{8,9}$/i.test(value.replace(/\s/g, '')) || /^[A-Z]{3}\d{10}$/i.test(value),
+    ...noAddress
+  },
+  military_id: {
+    // DoD ID number
+    id: (value) => /^\d{10}$/.test(value),
+    ...noAddress
+  }
+};
+
+export class ConfidenceService {
+  // Heuristic confidence for a single value based on whether it looks like a valid field value
+  // for the document type and address country
+  static scoreField(field: IDField, value: string, documentType?: DocumentType, addressCountry?: string): number {
+    const check = (documentType && DOCUMENT_FIELD_CHECKS[documentType]?.[field]) || FIELD_CHECKS[field];
+    return check(value.trim(), addressCountry) ? PLAUSIBLE_SCORE : IMPLAUSIBLE_SCORE;
+  }
+
+  // Fill in per-field confidence for every extracted value and derive the overall score.
+  // Provider-supplied scores win; fields without one are scored by FIELD_CHECKS. A value that
+  // breaks a rule for its document type is capped at IMPLAUSIBLE_SCORE whatever the provider said.
+  static applyFieldConfidence(data: ExtractedIDData): ExtractedIDData {
+    const fieldConfidence: FieldConfidence = {};
+
+    ID_FIELDS.forEach(field => {
+      const value = data[field];
+      if (value === undefined || value === null || value === '') {
+        return;
+      }
+
+      const providerScore = data.fieldConfidence?.[field];
+      const documentCheck = data.documentType && DOCUMENT_FIELD_CHECKS[data.documentType]?.[field];
+      if (providerScore === undefined) {
+        fieldConfidence[field] = this.scoreField(field, String(value), data.documentType, data.addressCountry);
+      } else if (documentCheck && !documentCheck(String(value).trim(), data.addressCountry)) {
+        fieldConfidence[field] = Math.min(providerScore, IMPLAUSIBLE_SCORE);
+      } else {
+        fieldConfidence[field] = providerScore;
+      }
+    });
+
+    const scores = Object.values(fieldConfidence);
+    const confidence = scores.length > 0
+      ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100
+      : undefined;
+
+    return { ...data, fieldConfidence, confidence };
+  }
+}
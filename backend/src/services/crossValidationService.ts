@@ -0,0 +1,112 @@
+import { Discrepancy, ExtractedIDData, ID_FIELDS, IDField, MachineSource } from '../models/ExtractedIDData.js';
+import { parseDocumentDate } from '../shared/dates.js';
+import { normalizeSex } from '../shared/sex.js';
+
+const FIELD_LABELS: Record<IDField, string> = {
+  id: 'ID number',
+  lastName: 'Last name',
+  firstName: 'First name',
+  middleName: 'Middle name',
+  middleInitial: 'Middle initial',
+  suffix: 'Suffix',
+  preferredName: 'Preferred name',
+  addressStreet: 'Street address',
+  addressCity: 'City',
+  addressState: 'State',
+  addressZip: 'Postal code',
+  addressCountry: 'Country',
+  sex: 'Sex',
+  dob: 'DOB',
+  issueDate: 'Issue date',
+  expirationDate: 'Expiration date',
+  documentClass: 'Class',
+  endorsements: 'Endorsements',
+  restrictions: 'Restrictions',
+  height: 'Height',
+  weight: 'Weight',
+  eyeColor: 'Eye color',
+  hairColor: 'Hair color',
+  organDonor: 'Organ donor'
+};
+
+const SOURCE_LABELS: Record<MachineSource, string> = {
+  barcode: 'barcode',
+  mrz: 'MRZ'
+};
+
+// Barcodes use USPS abbreviations while the card face often spells street types out
+const STREET_ABBREVIATIONS: { [word: string]: string } = {
+  STREET: 'ST', AVENUE: 'AVE', ROAD: 'RD', DRIVE: 'DR', BOULEVARD: 'BLVD', LANE: 'LN',
+  COURT: 'CT', PLACE: 'PL', CIRCLE: 'CIR', PARKWAY: 'PKWY', HIGHWAY: 'HWY', APARTMENT: 'APT',
+  NORTH: 'N', SOUTH: 'S', EAST: 'E', WEST: 'W'
+};
+
+export class CrossValidationService {
+  // Compare printed (OCR) values with machine-readable values, field by field.
+  // Only fields present in both are compared; a missing value is not a discrepancy.
+  static compare(printed: ExtractedIDData, machine: ExtractedIDData, source: MachineSource): Discrepancy[] {
+    const discrepancies: Discrepancy[] = [];
+
+    ID_FIELDS.forEach(field => {
+      const printedValue = this.displayValue(printed[field]);
+      const machineValue = this.displayValue(machine[field]);
+      if (!printedValue || !machineValue) {
+        return;
+      }
+
+      const [printedKey, machineKey] = field === 'addressZip'
+        ? this.comparableZipCodes(printedValue, machineValue)
+        : [this.comparableValue(field, printedValue), this.comparableValue(field, machineValue)];
+      if (printedKey !== machineKey) {
+        discrepancies.push({
+          field,
+          source,
+          printedValue,
+          machineValue,
+          message: `${FIELD_LABELS[field]} printed ${printedValue}, ${SOURCE_LABELS[source]} ${machineValue}`
+        });
+      }
+    });
+
+    return discrepancies;
+  }
+
+  private static displayValue(value: string | boolean | undefined): string | undefined {
+    if (typeof value === 'boolean') {
+      return value ? 'Yes' : 'No';
+    }
+    return value || undefined;
+  }
+
+  // Reduce a value to the form both sources should agree on, ignoring case, spacing and punctuation
+  private static comparableValue(field: IDField, value: string): string {
+    const upper = value.trim().toUpperCase();
+
+    switch (field) {
+      case 'dob':
+      case 'issueDate':
+      case 'expirationDate':
+        // Printed dates are normally ISO by now, but compare any other readable format the same way
+        return parseDocumentDate(upper) || upper;
+      case 'sex':
+        return normalizeSex(upper) || upper;
+      case 'addressStreet':
+        return upper
+          .split(/[\s.,#]+/)
+          .map(word => STREET_ABBREVIATIONS[word] || word)
+          .join('');
+      default:
+        return upper.replace(/[^A-Z0-9]/g, '');
+    }
+  }
+
+  // Barcodes often hold only the 5-digit ZIP of a ZIP+4, so the +4 is only compared when both have one
+  private static comparableZipCodes(printed: string, machine: string): [string, string] {
+    const codes = [printed, machine].map(value => value.toUpperCase().replace(/[^A-Z0-9]/g, ''));
+    if (codes.every(code => /^\d{9}$/.test(code))) {
+      return [codes[0], codes[1]];
+    }
+    const [printedCode, machineCode] = codes.map(code => /^\d{9}$/.test(code) ? code.substring(0, 5) : code);
+    return [printedCode, machineCode];
+  }
+}
@@ -0,0 +1,22 @@
+// Values starting with these are run as formulas by spreadsheet programs
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export class CsvExportService {
+  // One CSV line (RFC 4180), ending in CRLF
+  static formatRow(values: unknown[]): string {
+    return values.map(value => this.formatValue(value)).join(',') + '\r\n';
+  }
+
+  private static formatValue(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    // Keep ID data from being run as a formula when the export is opened in a spreadsheet
+    if (FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
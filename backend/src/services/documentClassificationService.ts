@@ -0,0 +1,84 @@
+import { DocumentClassification, DOCUMENT_TYPES, DocumentType } from '../models/ExtractedIDData.js';
+import { AamvaRecord } from './aamvaParser.js';
+import { MrzResult } from './mrzParser.js';
+
+// Phrases printed on each kind of document, most specific first ("PASSPORT CARD" before "PASSPORT")
+const TYPE_KEYWORDS: { type: DocumentType; pattern: RegExp }[] = [
+  { type: 'passport_card', pattern: /PASSPORT\s*CARD/ },
+  { type: 'passport', pattern: /PASSPORT|PASAPORTE|PASSEPORT/ },
+  { type: 'permanent_resident_card', pattern: /PERMANENT\s*RESIDENT|RESIDENT\s*ALIEN/ },
+  { type: 'military_id', pattern: /ARMED\s*FORCES|UNIFORMED\s*SERVICES|DEPARTMENT\s*OF\s*DEFENSE|GENEVA\s*CONVENTIONS/ },
+  { type: 'drivers_license', pattern: /DRIVER'?S?\s*LICEN[SC]E|DRIVER\s*LICEN[SC]E|\bCDL\b/ },
+  { type: 'state_id', pattern: /IDENTIFICATION\s*CARD|\bID\s*CARD\b|\bIDENTIFICATION\b/ }
+];
+
+const US_STATE_NAMES: { [name: string]: string } = {
+  ALABAMA: 'AL', ALASKA: 'AK', ARIZONA: 'AZ', ARKANSAS: 'AR', CALIFORNIA: 'CA', COLORADO: 'CO',
+  CONNECTICUT: 'CT', DELAWARE: 'DE', 'DISTRICT OF COLUMBIA': 'DC', FLORIDA: 'FL', GEORGIA: 'GA',
+  HAWAII: 'HI', IDAHO: 'ID', ILLINOIS: 'IL', INDIANA: 'IN', IOWA: 'IA', KANSAS: 'KS', KENTUCKY: 'KY',
+  LOUISIANA: 'LA', MAINE: 'ME', MARYLAND: 'MD', MASSACHUSETTS: 'MA', MICHIGAN: 'MI', MINNESOTA: 'MN',
+  MISSISSIPPI: 'MS', MISSOURI: 'MO', MONTANA: 'MT', NEBRASKA: 'NE', NEVADA: 'NV', 'NEW HAMPSHIRE': 'NH',
+  'NEW JERSEY': 'NJ', 'NEW MEXICO': 'NM', 'NEW YORK': 'NY', 'NORTH CAROLINA': 'NC', 'NORTH DAKOTA': 'ND',
+  OHIO: 'OH', OKLAHOMA: 'OK', OREGON: 'OR', PENNSYLVANIA: 'PA', 'RHODE ISLAND': 'RI',
+  'SOUTH CAROLINA': 'SC', 'SOUTH DAKOTA': 'SD', TENNESSEE: 'TN', TEXAS: 'TX', UTAH: 'UT', VERMONT: 'VT',
+  VIRGINIA: 'VA', WASHINGTON: 'WA', 'WEST VIRGINIA': 'WV', WISCONSIN: 'WI', WYOMING: 'WY'
+};
+
+// Federal documents are issued by the US rather than a state
+const FEDERAL_TYPES: DocumentType[] = ['passport', 'passport_card', 'permanent_resident_card', 'military_id'];
+
+export class DocumentClassificationService {
+  // AAMVA barcodes declare their subfile type: DL for driver's licenses, ID for identification cards
+  static fromBarcode(record: AamvaRecord): DocumentClassification {
+    const isLicense = record.subfiles.some(subfile => subfile.type === 'DL');
+    return {
+      documentType: isLicense ? 'drivers_license' : 'state_id',
+      issuingJurisdiction: record.elements.DAJ?.trim().toUpperCase() || undefined
+    };
+  }
+
+  // Passport MRZs start with "P"; other document codes are shared by too many card types to classify
+  static fromMrz(mrz: MrzResult): DocumentClassification | null {
+    if (!mrz.documentCode.startsWith('P')) {
+      return null;
+    }
+    return { documentType: 'passport', issuingJurisdiction: mrz.issuingCountry || undefined };
+  }
+
+  // Keyword classification for providers that only return raw text
+  static fromText(lines: string[]): DocumentClassification {
+    const text = lines.join('\n').toUpperCase();
+    const documentType = TYPE_KEYWORDS.find(({ pattern }) => pattern.test(text))?.type || 'unknown';
+
+    if (FEDERAL_TYPES.includes(documentType)) {
+      return { documentType, issuingJurisdiction: /UNITED\s*STATES|\bUSA\b/.test(text) ? 'USA' : undefined };
+    }
+
+    // State names are printed across the top of licenses and ID cards; prefer the longest match
+    // so "WEST VIRGINIA" wins over "VIRGINIA"
+    const stateName = Object.keys(US_STATE_NAMES)
+      .filter(name => new RegExp(`\\b${name.replace(/ /g, '\\s*')}\\b`).test(text))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return { documentType, issuingJurisdiction: stateName ? US_STATE_NAMES[stateName] : undefined };
+  }
+
+  // Map a provider's free-form answer (e.g. "Driver's License", "US passport") onto DOCUMENT_TYPES
+  static normalize(raw: any): DocumentClassification {
+    const value = String(raw?.documentType ?? raw?.document_type ?? raw?.type ?? '').trim();
+    const key = value.toLowerCase().replace(/['’]/g, '').replace(/[^a-z]+/g, '_').replace(/^_|_$/g, '');
+
+    const documentType: DocumentType = (DOCUMENT_TYPES as readonly string[]).includes(key)
+      ? key as DocumentType
+      : this.fromText([value]).documentType;
+
+    const jurisdiction = String(raw?.issuingJurisdiction ?? raw?.issuing_jurisdiction ?? raw?.jurisdiction ?? '')
+      .trim()
+      .toUpperCase();
+
+    return {
+      documentType,
+      issuingJurisdiction: US_STATE_NAMES[jurisdiction] || (/^[A-Z]{2,3}$/.test(jurisdiction) ? jurisdiction : undefined)
+    };
+  }
+}
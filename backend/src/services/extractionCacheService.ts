@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import mongoose from 'mongoose';
+import { ExtractionCache } from '../models/ExtractionCache.js';
+import { OcrProvider } from './ocrProvider.js';
+import { ExtractionResult } from './extractionService.js';
+import { ValidityService } from './validityService.js';
+
+const DEFAULT_TTL_HOURS = 24;
+
+// Identifies one image (or front/back pair) read by one provider configuration
+export interface CacheKey {
+  key: string;
+  imageHash: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+}
+
+export class ExtractionCacheService {
+  // Set OCR_CACHE=false to always call the provider
+  static isEnabled(): boolean {
+    return process.env.OCR_CACHE !== 'false';
+  }
+
+  static getTtlHours(): number {
+    const hours = parseFloat(process.env.OCR_CACHE_TTL_HOURS || '');
+    return isNaN(hours) || hours <= 0 ? DEFAULT_TTL_HOURS : hours;
+  }
+
+  // SHA-256 of the (preprocessed) image bytes, in order; front and back are hashed together
+  static hashImages(imagePaths: string[]): string {
+    const hash = crypto.createHash('sha256');
+    imagePaths.forEach(imagePath => {
+      const bytes = fs.readFileSync(imagePath);
+      // Length prefix keeps (front, back) pairs from colliding with a single concatenated image
+      hash.update(`${bytes.length}:`).update(bytes);
+    });
+    return hash.digest('hex');
+  }
+
+  // Cache key for these images and provider, or null when results from this provider aren't cached
+  static getKey(imagePaths: string[], provider: OcrProvider): CacheKey | null {
+    if (!this.isEnabled() || !provider.model || !provider.promptVersion) {
+      return null;
+    }
+
+    const imageHash = this.hashImages(imagePaths);
+    const key = crypto.createHash('sha256')
+      .update([imageHash, provider.name, provider.model, provider.promptVersion].join('\n'))
+      .digest('hex');
+    return { key, imageHash, provider: provider.name, model: provider.model, promptVersion: provider.promptVersion };
+  }
+
+  static async get(cacheKey: CacheKey): Promise<ExtractionResult | null> {
+    if (!this.isConnected()) {
+      return null;
+    }
+
+    try {
+      // Expired entries can outlive expiresAt until MongoDB's TTL monitor runs, so filter on it too
+      const entry = await ExtractionCache.findOneAndUpdate(
+        { key: cacheKey.key, expiresAt: { $gt: new Date() } },
+        { $inc: { hits: 1 } }
+      );
+      if (!entry) {
+        return null;
+      }
+
+      // Validity depends on today's date, not the date the result was cached
+      const { result } = entry;
+      return {
+        ...result,
+        extractedData: { ...result.extractedData, validityStatus: ValidityService.computeStatus(result.extractedData) }
+      };
+    } catch (error) {
+      // A cache failure only costs an OCR call
+      console.warn('Extraction cache lookup failed:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  static async set(cacheKey: CacheKey, result: ExtractionResult): Promise<void> {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    try {
+      await ExtractionCache.findOneAndUpdate(
+        { key: cacheKey.key },
+        {
+          key: cacheKey.key,
+          imageHash: cacheKey.imageHash,
+          provider: cacheKey.provider,
+          ocrModel: cacheKey.model,
+          promptVersion: cacheKey.promptVersion,
+          result,
+          hits: 0,
+          expiresAt: new Date(Date.now() + this.getTtlHours() * 60 * 60 * 1000)
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.warn('Extraction cache write failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Mongoose would otherwise queue the query until a connection comes back
+  private static isConnected(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+}
@@ -0,0 +1,311 @@
+import { Discrepancy, DocumentClassification, ExtractedIDData, FieldSources, ID_FIELDS, IDField } from '../models/ExtractedIDData.js';
+import { getOcrProvider, OcrProvider, OcrRequest } from './ocrProvider.js';
+import { BarcodeService } from './barcodeService.js';
+import { AamvaParser, AamvaRecord } from './aamvaParser.js';
+import { MrzCheckName, MrzFormat, MrzParser, MrzResult } from './mrzParser.js';
+import { ConfidenceService } from './confidenceService.js';
+import { CrossValidationService } from './crossValidationService.js';
+import { DocumentClassificationService } from './documentClassificationService.js';
+import { ValidityService } from './validityService.js';
+import { guessPostalCodeCountry, normalizeCountry, normalizePostalCode } from '../shared/postalCodes.js';
+import { DATE_FIELDS, dateOrderFor, parseDocumentDate } from '../shared/dates.js';
+
+// Barcode values are checksummed by PDF417 error correction, so treat them as near-certain
+const BARCODE_CONFIDENCE = 0.99;
+// MRZ values that passed their check digits; names carry no check digit but come from the same verified zone
+const MRZ_CONFIDENCE = 0.95;
+// MRZ values from a zone whose check digits failed are only used to fill gaps
+const MRZ_UNVERIFIED_CONFIDENCE = 0.4;
+
+// Copy one field's value, keeping its type when looping over ID_FIELDS
+const setField = <K extends IDField>(data: ExtractedIDData, field: K, value: ExtractedIDData[K]): void => {
+  data[field] = value;
+};
+
+export interface BarcodeSummary {
+  format: 'AAMVA';
+  issuerId: string;
+  version: number;
+  jurisdictionVersion?: number;
+}
+
+export interface MrzSummary {
+  format: MrzFormat;
+  documentCode: string;
+  issuingCountry: string;
+  nationality: string;
+  expiryDate?: string;
+  valid: boolean;
+  checks: Partial<Record<MrzCheckName, boolean>>;
+}
+
+export interface ExtractionResult {
+  extractedData: ExtractedIDData;
+  barcode?: BarcodeSummary;
+  mrz?: MrzSummary;
+  // Fields where the printed text disagrees with the barcode or MRZ
+  discrepancies: Discrepancy[];
+}
+
+export class ExtractionService {
+  // Read the barcode (if any), classify the document and read the printed text with a prompt for
+  // that document type, preferring barcode values, then MRZ values, field by field. Two-sided
+  // uploads take the barcode from the back and the printed fields from the front.
+  static async extract(request: OcrRequest): Promise<ExtractionResult> {
+    const provider = getOcrProvider();
+    // The barcode is normally on the back; single-sided uploads may still show it
+    const backBarcodeRecord = request.back ? await this.readAamvaBarcode(request.back.imagePath) : null;
+    const barcodeRecord = backBarcodeRecord || await this.readAamvaBarcode(request.imagePath);
+    const barcodeData = barcodeRecord ? AamvaParser.toExtractedData(barcodeRecord) : null;
+
+    // AAMVA barcodes identify licenses and ID cards without an extra provider call
+    const classification = barcodeRecord
+      ? DocumentClassificationService.fromBarcode(barcodeRecord)
+      : await this.classify(provider, request);
+
+    let ocrData: ExtractedIDData = {};
+    try {
+      ocrData = await provider.extract({ ...request, documentType: classification?.documentType });
+    } catch (error) {
+      // The barcode alone is enough to fill the form; only fail when there is nothing to return
+      if (!barcodeData) {
+        throw error;
+      }
+      console.warn('OCR failed, using barcode data only:', error instanceof Error ? error.message : error);
+    }
+
+    // A back without a barcode may carry the MRZ (ID cards, passport cards) or printed fields
+    if (request.back && !backBarcodeRecord) {
+      ocrData = this.mergeBackData(ocrData, await this.extractBack(provider, request, classification));
+    }
+
+    // Numeric dates are read day-first or month-first depending on where the document is from
+    ocrData = this.normalizeDates(ocrData, classification?.issuingJurisdiction || ocrData.issuingJurisdiction);
+
+    const { mrzLines, ...printedData } = ocrData;
+    const mrz = mrzLines ? this.parseMrz(mrzLines) : null;
+
+    const discrepancies: Discrepancy[] = [];
+    let merged = this.markSources(printedData);
+    if (mrz) {
+      discrepancies.push(...CrossValidationService.compare(printedData, MrzParser.toExtractedData(mrz), 'mrz'));
+      merged = this.mergeMrzData(merged, mrz);
+    }
+    if (barcodeData) {
+      discrepancies.push(...CrossValidationService.compare(printedData, barcodeData, 'barcode'));
+      merged = this.mergeBarcodeData(merged, barcodeData);
+    }
+
+    // A passport MRZ is conclusive; otherwise use the classification step, then whatever the provider reported
+    const documentClassification = this.resolveClassification([
+      mrz && DocumentClassificationService.fromMrz(mrz),
+      classification,
+      printedData.documentType ? { documentType: printedData.documentType, issuingJurisdiction: printedData.issuingJurisdiction } : null
+    ]);
+    merged = { ...merged, ...documentClassification, validityStatus: ValidityService.computeStatus(merged) };
+    merged = this.applyAddressCountry(merged);
+
+    return {
+      // Field checks depend on the document type, so score after classifying
+      extractedData: ConfidenceService.applyFieldConfidence(merged),
+      discrepancies,
+      ...(mrz && {
+        mrz: {
+          format: mrz.format,
+          documentCode: mrz.documentCode,
+          issuingCountry: mrz.issuingCountry,
+          nationality: mrz.nationality,
+          expiryDate: mrz.expiryDate,
+          valid: mrz.valid,
+          checks: mrz.checks
+        }
+      }),
+      ...(barcodeRecord && {
+        barcode: {
+          format: 'AAMVA',
+          issuerId: barcodeRecord.issuerId,
+          version: barcodeRecord.version,
+          jurisdictionVersion: barcodeRecord.jurisdictionVersion
+        }
+      })
+    };
+  }
+
+  private static async classify(provider: OcrProvider, request: OcrRequest): Promise<DocumentClassification | null> {
+    if (!provider.classify) {
+      return null;
+    }
+    try {
+      return await provider.classify(request);
+    } catch (error) {
+      // Extraction still works with the generic prompt
+      console.warn('Document classification failed:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // First known document type wins; the jurisdiction comes from the same source when it has one
+  private static resolveClassification(candidates: (DocumentClassification | null)[]): DocumentClassification {
+    const known = candidates.filter((candidate): candidate is DocumentClassification => !!candidate);
+    const chosen = known.find(candidate => candidate.documentType !== 'unknown');
+    return {
+      documentType: chosen?.documentType || 'unknown',
+      issuingJurisdiction: chosen?.issuingJurisdiction || known.find(candidate => candidate.issuingJurisdiction)?.issuingJurisdiction
+    };
+  }
+
+  // Printed dates as ISO YYYY-MM-DD; dates that can't be read are kept as printed for the reviewer to fix
+  private static normalizeDates(data: ExtractedIDData, jurisdiction?: string): ExtractedIDData {
+    const order = dateOrderFor(jurisdiction);
+    const normalized = { ...data };
+    DATE_FIELDS.forEach(field => {
+      const iso = normalized[field] && parseDocumentDate(normalized[field], { order, past: field === 'dob' });
+      if (iso) {
+        normalized[field] = iso;
+      }
+    });
+    return normalized;
+  }
+
+  // Few documents print the address's country. Take it from a country-level issuer (e.g. "CAN") or
+  // the postal code's format, then print the postal code the way that country does.
+  private static applyAddressCountry(data: ExtractedIDData): ExtractedIDData {
+    if (!data.addressZip && !data.addressStreet && !data.addressCity) {
+      return data;
+    }
+
+    const issuerCountry = data.issuingJurisdiction?.length === 3 ? normalizeCountry(data.issuingJurisdiction) : undefined;
+    const addressCountry = data.addressCountry || issuerCountry || (data.addressZip && guessPostalCodeCountry(data.addressZip));
+    if (!addressCountry) {
+      return data;
+    }
+    return {
+      ...data,
+      addressCountry,
+      ...(data.addressZip && { addressZip: normalizePostalCode(data.addressZip, addressCountry) })
+    };
+  }
+
+  private static async extractBack(
+    provider: OcrProvider,
+    request: OcrRequest,
+    classification: DocumentClassification | null
+  ): Promise<ExtractedIDData> {
+    try {
+      return await provider.extract({
+        imagePath: request.back.imagePath,
+        originalName: request.back.originalName,
+        documentType: classification?.documentType
+      });
+    } catch (error) {
+      // The front already has the printed fields
+      console.warn('OCR of the back failed:', error instanceof Error ? error.message : error);
+      return {};
+    }
+  }
+
+  // The front wins; the back only fills fields the front lacks. Its regions are dropped since they
+  // refer to the other image.
+  private static mergeBackData(front: ExtractedIDData, back: ExtractedIDData): ExtractedIDData {
+    const merged = { ...front, fieldConfidence: { ...front.fieldConfidence } };
+
+    ID_FIELDS.forEach(field => {
+      const missing = merged[field] === undefined || merged[field] === '';
+      if (missing && back[field] !== undefined && back[field] !== '') {
+        setField(merged, field, back[field]);
+        if (back.fieldConfidence?.[field] !== undefined) {
+          merged.fieldConfidence[field] = back.fieldConfidence[field];
+        }
+      }
+    });
+    if (!merged.mrzLines && back.mrzLines) {
+      merged.mrzLines = back.mrzLines;
+    }
+    if (!merged.nativeScript && back.nativeScript) {
+      merged.nativeScript = back.nativeScript;
+    }
+
+    return merged;
+  }
+
+  private static async readAamvaBarcode(imagePath: string): Promise<AamvaRecord | null> {
+    try {
+      const text = await BarcodeService.decodePdf417(imagePath);
+      if (!text || !AamvaParser.isAamva(text)) {
+        return null;
+      }
+      return AamvaParser.parse(text);
+    } catch (error) {
+      // A missing or unreadable barcode should never block OCR
+      console.warn('Barcode detection failed:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private static parseMrz(lines: string[]): MrzResult | null {
+    try {
+      return MrzParser.parse(lines);
+    } catch (error) {
+      console.warn('MRZ parsing failed:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private static markSources(data: ExtractedIDData): ExtractedIDData {
+    const fieldSources: FieldSources = {};
+    ID_FIELDS.forEach(field => {
+      if (data[field] !== undefined && data[field] !== '') {
+        fieldSources[field] = 'ocr';
+      }
+    });
+    return { ...data, fieldSources };
+  }
+
+  // A verified MRZ overrides the printed text; an MRZ with failed check digits only fills missing fields
+  private static mergeMrzData(data: ExtractedIDData, mrz: MrzResult): ExtractedIDData {
+    const mrzData = MrzParser.toExtractedData(mrz);
+    const merged = { ...data, fieldSources: { ...data.fieldSources } };
+    const fieldConfidence = { ...merged.fieldConfidence };
+
+    ID_FIELDS.forEach(field => {
+      if (mrzData[field] && (mrz.valid || !merged[field])) {
+        setField(merged, field, mrzData[field]);
+        merged.fieldSources[field] = 'mrz';
+        fieldConfidence[field] = mrz.valid ? MRZ_CONFIDENCE : MRZ_UNVERIFIED_CONFIDENCE;
+      }
+    });
+
+    return {
+      ...merged,
+      fieldConfidence,
+      mrzValid: mrz.valid,
+      ...(!mrz.valid && { mrzFailedChecks: MrzParser.failedChecks(mrz) })
+    };
+  }
+
+  private static mergeBarcodeData(data: ExtractedIDData, barcodeData: ExtractedIDData): ExtractedIDData {
+    const merged = { ...data, fieldSources: { ...data.fieldSources } };
+    const fieldConfidence = { ...merged.fieldConfidence };
+
+    ID_FIELDS.forEach(field => {
+      // organDonor may be false, which is still a value read from the barcode
+      if (barcodeData[field] !== undefined && barcodeData[field] !== '' && !this.extendsBarcodeZip(field, data, barcodeData)) {
+        setField(merged, field, barcodeData[field]);
+        merged.fieldSources[field] = 'barcode';
+        fieldConfidence[field] = BARCODE_CONFIDENCE;
+      }
+    });
+
+    return { ...merged, fieldConfidence };
+  }
+
+  // Barcodes drop a "0000" +4 and some issuers never encode one, so a printed ZIP+4 whose ZIP is the
+  // barcode's is kept rather than cut back to five digits
+  private static extendsBarcodeZip(field: string, data: ExtractedIDData, barcodeData: ExtractedIDData): boolean {
+    if (field !== 'addressZip' || !data.addressZip || !/^\d{5}$/.test(barcodeData.addressZip)) {
+      return false;
+    }
+    const printed = data.addressZip.replace(/[\s-]/g, '');
+    return /^\d{9}$/.test(printed) && printed.startsWith(barcodeData.addressZip);
+  }
+}
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { createError } from '../middleware/errorHandler.js';
+import { ExtractedIDData } from '../models/ExtractedIDData.js';
+import { OcrProvider, OcrRequest } from './ocrProvider.js';
+
+export interface OcrFixtureFile {
+  // Canned results keyed by the SHA-256 hex digest of the image bytes sent to OCR
+  byHash?: { [sha256: string]: ExtractedIDData };
+  // Canned results keyed by the uploaded file name (case-insensitive)
+  byFileName?: { [fileName: string]: ExtractedIDData };
+  // Optional result returned when no key matches
+  default?: ExtractedIDData;
+}
+
+export class FixtureOcrService {
+  static getFixturesPath(): string {
+    return process.env.OCR_FIXTURES_PATH || path.join(process.cwd(), 'fixtures', 'ocr-fixtures.json');
+  }
+
+  static loadFixtures(): OcrFixtureFile {
+    const fixturesPath = this.getFixturesPath();
+
+    if (!fs.existsSync(fixturesPath)) {
+      throw createError(`OCR fixture file not found: ${fixturesPath}`, 500);
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+    } catch (error) {
+      throw createError(`Failed to parse OCR fixture file: ${fixturesPath}`, 500);
+    }
+  }
+
+  static hashImage(imagePath: string): string {
+    return crypto.createHash('sha256').update(fs.readFileSync(imagePath)).digest('hex');
+  }
+
+  static async extractFromFixture({ imagePath, originalName }: OcrRequest): Promise<ExtractedIDData> {
+    // Re-read on every call so fixtures can be edited without restarting the server
+    const fixtures = this.loadFixtures();
+
+    const imageHash = this.hashImage(imagePath);
+    const byHash = fixtures.byHash?.[imageHash];
+    if (byHash) {
+      return { ...byHash };
+    }
+
+    if (originalName && fixtures.byFileName) {
+      const fileKey = Object.keys(fixtures.byFileName)
+        .find(key => key.toLowerCase() === originalName.toLowerCase());
+      if (fileKey) {
+        return { ...fixtures.byFileName[fileKey] };
+      }
+    }
+
+    if (fixtures.default) {
+      return { ...fixtures.default };
+    }
+
+    throw createError(
+      `No OCR fixture matches file "${originalName || path.basename(imagePath)}" (sha256 ${imageHash})`,
+      422
+    );
+  }
+}
+
+export const fixtureOcrProvider: OcrProvider = {
+  name: 'fixture',
+  extract: (request) => FixtureOcrService.extractFromFixture(request)
+};
@@ -0,0 +1,121 @@
+// Raw field values keyed by the names NormalizationService understands
+export type ParsedIDFields = { [key: string]: string };
+
+export interface ParsedIDText {
+  fields: ParsedIDFields;
+  // Index of the input line each field was read from
+  sourceLines: { [key: string]: number };
+}
+
+const DATE_PATTERN = '(\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2})';
+
+// "ANYTOWN, CA 90210" or "ANYTOWN CA 90210-1234"
+const CITY_STATE_ZIP = /^([A-Z][A-Z .'-]*?),?\s+([A-Z]{2})\s+(\d{5}(?:-?\d{4})?)$/;
+
+// Labelled lines. US licenses number their fields per the AAMVA card design standard
+// (1 family name, 2 given names, 3 DOB, 4a issue date, 4b expiration date, 4d license number,
+// 8 address, 9 class, 9a endorsements, 12 restrictions, 15 sex, 16 height, 17 weight, 18 eyes,
+// 19 hair), and many states print the numeric prefix in front of (or instead of) the text label.
+// Inline rules may match anywhere in a line, since these short fields often share a line;
+// they are listed first so a line can yield several inline fields before a line rule claims it.
+const LINE_RULES: { key: string; pattern: RegExp; inline?: boolean }[] = [
+  { key: 'issue_date', pattern: new RegExp(`\\b(?:4A\\s*)?(?:ISS(?:UED)?|ISSUE DATE)[:\\s]*${DATE_PATTERN}`), inline: true },
+  { key: 'expiration_date', pattern: new RegExp(`\\b(?:4B\\s*)?(?:EXP(?:IRES)?|EXPIRATION DATE)[:\\s]*${DATE_PATTERN}`), inline: true },
+  { key: 'class', pattern: /\b(?:9\s+)?CLASS[:\s]+([A-Z0-9]{1,3})\b/, inline: true },
+  { key: 'endorsements', pattern: /\b(?:9A\s*)?(?:END|ENDORSEMENTS)[:\s]+(NONE|[A-Z0-9]{1,3})\b/, inline: true },
+  { key: 'restrictions', pattern: /\b(?:12\s*)?(?:RESTR|RSTR|RESTRICTIONS)[:\s]+(NONE|[A-Z0-9]{1,3})\b/, inline: true },
+  { key: 'height', pattern: /\b(?:16\s*)?(?:HGT|HEIGHT)[:\s]*(\d'\s*-?\s*\d{1,2}"?|\d{2,3}\s*CM)/, inline: true },
+  { key: 'weight', pattern: /\b(?:17\s*)?(?:WGT|WEIGHT)[:\s]*(\d{2,3}\s*(?:LBS?|KG)?)/, inline: true },
+  { key: 'eyes', pattern: /\b(?:18\s*)?EYES[:\s]+([A-Z]{3,5})\b/, inline: true },
+  { key: 'hair', pattern: /\b(?:19\s*)?HAIR[:\s]+([A-Z]{3,5})\b/, inline: true },
+  { key: 'organ_donor', pattern: /\b(ORGAN DONOR)\b/, inline: true },
+  { key: 'id_number', pattern: /^(?:4D\s*)?(?:DLN|DL|LIC(?:ENSE)?(?:\s*(?:NO|#))?|ID(?:\s*(?:NO|#))?)\.?[:#\s]+([A-Z0-9][A-Z0-9-]{3,})\b/ },
+  { key: 'dob', pattern: new RegExp(`^(?:3\\s*)?(?:DOB|DATE OF BIRTH|BIRTH DATE)[:\\s]*${DATE_PATTERN}`) },
+  { key: 'last_name', pattern: /^(?:1\s+|(?:LN|LAST NAME|SURNAME)[:\s]+)([A-Z][A-Z ,'-]*)$/ },
+  { key: 'given_names', pattern: /^(?:2\s+|(?:FN|FIRST NAME|GIVEN NAMES?)[:\s]+)([A-Z][A-Z '-]*)$/ },
+  { key: 'address', pattern: /^(?:8\s+|(?:ADDRESS|ADDR)[:\s]+)(\d.*)$/ },
+  { key: 'sex', pattern: /^(?:15\s*)?SEX[:\s]*([MFX])\b/ }
+];
+
+export class IdTextParser {
+  // Map raw OCR text lines onto ID fields using label and layout heuristics
+  static parseLines(lines: string[]): ParsedIDText {
+    const fields: ParsedIDFields = {};
+    const sourceLines: { [key: string]: number } = {};
+    const cleanedLines = lines.map(line => line.toUpperCase().replace(/\s+/g, ' ').trim());
+
+    const setField = (key: string, value: string, lineIndex: number) => {
+      fields[key] = value;
+      sourceLines[key] = lineIndex;
+    };
+
+    cleanedLines.forEach((line, index) => {
+      if (!line) {
+        return;
+      }
+
+      for (const rule of LINE_RULES) {
+        const match = line.match(rule.pattern);
+        if (!match || fields[rule.key]) {
+          continue;
+        }
+
+        setField(rule.key, match[1].trim(), index);
+        if (rule.inline) {
+          continue;
+        }
+
+        // The city/state/ZIP line normally follows the street line
+        if (rule.key === 'address' && cleanedLines[index + 1]) {
+          this.parseCityStateZip(cleanedLines[index + 1], index + 1, setField);
+        }
+        return;
+      }
+
+      // Unlabelled city/state/ZIP lines (e.g. when the address label was not read)
+      if (!fields.zip) {
+        this.parseCityStateZip(line, index, setField);
+      }
+    });
+
+    // "2 JANE QUINN" holds first and middle names
+    if (fields.given_names) {
+      const lineIndex = sourceLines.given_names;
+      const [firstName, ...middleNames] = fields.given_names.split(' ');
+      setField('first_name', firstName, lineIndex);
+      if (middleNames.length > 0) {
+        setField('middle_name', middleNames.join(' '), lineIndex);
+      }
+      delete fields.given_names;
+      delete sourceLines.given_names;
+    }
+
+    // Some layouts print "LAST, FIRST MIDDLE" on a single numbered line
+    if (fields.last_name && fields.last_name.includes(',') && !fields.first_name) {
+      const lineIndex = sourceLines.last_name;
+      const [lastName, rest] = fields.last_name.split(',').map(part => part.trim());
+      const [firstName, ...middleNames] = rest.split(' ');
+      setField('last_name', lastName, lineIndex);
+      setField('first_name', firstName, lineIndex);
+      if (middleNames.length > 0) {
+        setField('middle_name', middleNames.join(' '), lineIndex);
+      }
+    }
+
+    return { fields, sourceLines };
+  }
+
+  private static parseCityStateZip(
+    line: string,
+    lineIndex: number,
+    setField: (key: string, value: string, lineIndex: number) => void
+  ): void {
+    const match = line.match(CITY_STATE_ZIP);
+    if (!match) {
+      return;
+    }
+    setField('city', match[1].trim(), lineIndex);
+    setField('state', match[2], lineIndex);
+    setField('zip', match[3], lineIndex);
+  }
+}
@@ -0,0 +1,278 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { ImageQualityService, QualityMetrics } from './imageQualityService.js';
+import { SignedUrlService } from './signedUrlService.js';
+
+// Edge analysis runs on a small copy; card outlines survive downscaling and it keeps the scan cheap
+const ANALYSIS_SIZE = 480;
+const DEFAULT_MAX_DIMENSION = 2000;
+// Skew search range and step, in degrees
+const MAX_SKEW = 20;
+const SKEW_STEP = 0.5;
+// Fraction of edge pixels ignored at each end when locating the card, so stray background edges don't widen the crop
+const EDGE_TRIM = 0.02;
+const CROP_MARGIN = 0.02;
+
+// ID-1 cards are 1.586:1 and passport data pages about 1.42:1; only crop to boxes shaped like a document
+const MIN_ASPECT = 1.2;
+const MAX_ASPECT = 2.0;
+const MIN_AREA = 0.15;
+const MAX_AREA = 0.92;
+
+const PROCESSED_FILE_NAME = /^[\w.-]+-processed\.jpg$/;
+
+export interface PreprocessResult {
+  // Path of the processed JPEG, under the processed image directory
+  imagePath: string;
+  fileName: string;
+  width: number;
+  height: number;
+  // Rotation applied to straighten the card, in degrees (clockwise)
+  deskewAngle: number;
+  cropped: boolean;
+  quality: QualityMetrics;
+}
+
+interface CropBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface EdgeMap {
+  width: number;
+  height: number;
+  // Edge pixel coordinates, and whether each one is part of a mostly horizontal edge
+  xs: number[];
+  ys: number[];
+  horizontal: boolean[];
+}
+
+export class ImagePreprocessingService {
+  // Set IMAGE_PREPROCESSING=false to send uploads to the providers untouched
+  static isEnabled(): boolean {
+    return process.env.IMAGE_PREPROCESSING !== 'false';
+  }
+
+  // Processed images show the whole ID, so they are kept out of any statically served directory and
+  // only served through signed links
+  static getProcessedDir(): string {
+    return path.resolve(process.env.PROCESSED_IMAGE_DIR || 'processed');
+  }
+
+  // Path of a stored processed image, or null for names that aren't processed image files
+  static getPath(fileName: string): string | null {
+    return PROCESSED_FILE_NAME.test(fileName) ? path.join(this.getProcessedDir(), fileName) : null;
+  }
+
+  // Path of GET /api/id/images/:fileName for a processed image; sign it with SignedUrlService
+  static getUrlPath(fileName: string): string {
+    return `/api/id/images/${encodeURIComponent(fileName)}`;
+  }
+
+  static getSignedUrl(fileName: string, now: number = Date.now()): string {
+    return SignedUrlService.sign(this.getUrlPath(fileName), now);
+  }
+
+  // Orient, straighten, crop to the card, downscale and normalize contrast, writing a JPEG to the processed image directory
+  static async preprocess(inputPath: string): Promise<PreprocessResult> {
+    // Apply EXIF orientation first (sharp allows only one rotation per pipeline) and put transparent
+    // PNGs on white, since the JPEG output and the edge analysis would otherwise see them as black
+    const oriented = await sharp(inputPath)
+      .rotate()
+      .flatten({ background: { r: 255, g: 255, b: 255 } })
+      .toBuffer({ resolveWithObject: true });
+
+    const analysis = await sharp(oriented.data)
+      .resize({ width: ANALYSIS_SIZE, height: ANALYSIS_SIZE, fit: 'inside' })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const edges = this.detectEdges(analysis.data, analysis.info.width, analysis.info.height);
+
+    const tilt = this.estimateSkew(edges);
+    // Rotating by the negative tilt levels the card's long edges
+    const deskewAngle = Math.abs(tilt) >= SKEW_STEP ? -tilt : 0;
+
+    let image = oriented.data;
+    let { width, height } = oriented.info;
+    if (deskewAngle !== 0) {
+      const rotated = await sharp(image)
+        .rotate(deskewAngle, { background: { r: 255, g: 255, b: 255 } })
+        .toBuffer({ resolveWithObject: true });
+      image = rotated.data;
+      width = rotated.info.width;
+      height = rotated.info.height;
+    }
+
+    // Locate the card in the analysis image, then scale the box up to the full-size image. Cards that
+    // fill nearly the whole photo are left uncropped, as are tiny ones that may just be clutter.
+    const scale = oriented.info.width / analysis.info.width;
+    const card = this.findCard(edges, deskewAngle);
+    const crop = card && card.coverage >= MIN_AREA && card.coverage <= MAX_AREA && this.clampBox({
+      left: Math.round(card.box.left * scale),
+      top: Math.round(card.box.top * scale),
+      width: Math.round(card.box.width * scale),
+      height: Math.round(card.box.height * scale)
+    }, width, height);
+
+    let cardImage = image;
+    if (crop) {
+      cardImage = await sharp(image).extract(crop).toBuffer();
+    }
+    // Scored before downscaling and contrast normalization, which would hide blur and glare. Uncropped
+    // images are scored unrotated so the white corners added by deskewing don't read as glare.
+    const quality = await ImageQualityService.measure(crop ? cardImage : oriented.data, card?.coverage);
+
+    const maxDimension = parseInt(process.env.PREPROCESS_MAX_DIMENSION || '', 10) || DEFAULT_MAX_DIMENSION;
+
+    fs.mkdirSync(this.getProcessedDir(), { recursive: true });
+    const fileName = `${path.parse(inputPath).name}-processed.jpg`;
+    const outputPath = path.join(this.getProcessedDir(), fileName);
+
+    const output = await sharp(cardImage)
+      .resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true })
+      .normalise()
+      .jpeg({ quality: 90 })
+      .toFile(outputPath);
+
+    return {
+      imagePath: outputPath,
+      fileName,
+      width: output.width,
+      height: output.height,
+      deskewAngle: Math.round(deskewAngle * 10) / 10,
+      cropped: !!crop,
+      quality
+    };
+  }
+
+  // Gradient magnitude edges, keeping the strongest 10% of pixels
+  private static detectEdges(data: Buffer, width: number, height: number): EdgeMap {
+    const magnitudes = new Uint16Array(width * height);
+    const histogram = new Uint32Array(511);
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const gx = data[i + 1] - data[i - 1];
+        const gy = data[i + width] - data[i - width];
+        const magnitude = Math.abs(gx) + Math.abs(gy);
+        magnitudes[i] = magnitude;
+        histogram[magnitude]++;
+      }
+    }
+
+    // Threshold at the 90th percentile, but never so low that flat images produce noise edges
+    const target = (width - 2) * (height - 2) * 0.1;
+    let threshold = 510;
+    for (let count = 0; threshold > 0 && count + histogram[threshold] < target; threshold--) {
+      count += histogram[threshold];
+    }
+    threshold = Math.max(threshold, 40);
+
+    const edges: EdgeMap = { width, height, xs: [], ys: [], horizontal: [] };
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        if (magnitudes[i] >= threshold) {
+          edges.xs.push(x);
+          edges.ys.push(y);
+          edges.horizontal.push(Math.abs(data[i + width] - data[i - width]) > Math.abs(data[i + 1] - data[i - 1]));
+        }
+      }
+    }
+    return edges;
+  }
+
+  // Tilt (degrees, clockwise) whose projection lines up the horizontal edges best: card outlines and
+  // text baselines all run parallel to the card's long side, so the sharpest projection profile wins
+  private static estimateSkew(edges: EdgeMap): number {
+    const diagonal = Math.ceil(Math.hypot(edges.width, edges.height));
+    let bestAngle = 0;
+    let bestScore = -1;
+
+    for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+      const radians = angle * Math.PI / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      const bins = new Float64Array(diagonal * 2 + 1);
+
+      for (let i = 0; i < edges.xs.length; i++) {
+        if (edges.horizontal[i]) {
+          bins[Math.round(edges.ys[i] * cos - edges.xs[i] * sin) + diagonal]++;
+        }
+      }
+
+      let score = 0;
+      for (let i = 0; i < bins.length; i++) {
+        score += bins[i] * bins[i];
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  }
+
+  // Bounding box of the edge pixels in the deskewed frame and the fraction of the photo it covers,
+  // or null when it isn't shaped like a document (e.g. a cluttered background)
+  private static findCard(edges: EdgeMap, deskewAngle: number): { box: CropBox; coverage: number } | null {
+    if (edges.xs.length === 0) {
+      return null;
+    }
+
+    // Map edge pixels into the rotated canvas sharp produces (which grows to fit the rotated image)
+    const radians = deskewAngle * Math.PI / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rotatedWidth = Math.abs(edges.width * cos) + Math.abs(edges.height * sin);
+    const rotatedHeight = Math.abs(edges.width * sin) + Math.abs(edges.height * cos);
+    const us: number[] = [];
+    const vs: number[] = [];
+    edges.xs.forEach((x, i) => {
+      const dx = x - edges.width / 2;
+      const dy = edges.ys[i] - edges.height / 2;
+      us.push(dx * cos - dy * sin + rotatedWidth / 2);
+      vs.push(dx * sin + dy * cos + rotatedHeight / 2);
+    });
+
+    const [left, right] = this.trimmedRange(us);
+    const [top, bottom] = this.trimmedRange(vs);
+    const marginX = (right - left) * CROP_MARGIN;
+    const marginY = (bottom - top) * CROP_MARGIN;
+    const box = {
+      left: left - marginX,
+      top: top - marginY,
+      width: right - left + marginX * 2,
+      height: bottom - top + marginY * 2
+    };
+
+    const aspect = Math.max(box.width, box.height) / Math.min(box.width, box.height);
+    if (aspect < MIN_ASPECT || aspect > MAX_ASPECT) {
+      return null;
+    }
+    return { box, coverage: Math.min(1, (box.width * box.height) / (edges.width * edges.height)) };
+  }
+
+  private static trimmedRange(values: number[]): [number, number] {
+    const sorted = [...values].sort((a, b) => a - b);
+    const trim = Math.floor(sorted.length * EDGE_TRIM);
+    return [sorted[trim], sorted[sorted.length - 1 - trim]];
+  }
+
+  private static clampBox(box: CropBox, width: number, height: number): CropBox | null {
+    const left = Math.max(0, Math.min(box.left, width - 1));
+    const top = Math.max(0, Math.min(box.top, height - 1));
+    const clamped = {
+      left,
+      top,
+      width: Math.min(box.width, width - left),
+      height: Math.min(box.height, height - top)
+    };
+    return clamped.width > 0 && clamped.height > 0 ? clamped : null;
+  }
+}
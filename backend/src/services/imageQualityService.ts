@@ -0,0 +1,183 @@
+import sharp from 'sharp';
+import { ApiErrorIssue, createError } from '../middleware/errorHandler.js';
+
+// Sharpness is measured at a fixed width so the score doesn't depend on the photo's resolution
+const SHARPNESS_WIDTH = 1000;
+// Pixels this bright, and well above the image's typical brightness, are treated as glare
+const GLARE_LEVEL = 250;
+const GLARE_MARGIN = 25;
+// Glare is counted in square blocks of this many pixels, when at least this fraction of a block is clipped
+const GLARE_BLOCK = 20;
+const GLARE_BLOCK_COVERAGE = 0.9;
+
+const DEFAULT_THRESHOLDS: QualityThresholds = {
+  minSharpness: 50,
+  maxGlare: 0.05,
+  minResolution: 500,
+  minCoverage: 0.2
+};
+
+export interface QualityMetrics {
+  // Variance of the Laplacian; low values mean few sharp edges (blur or camera shake)
+  sharpness: number;
+  // Fraction (0-1) of the document covered by glare hotspots
+  glare: number;
+  // Size of the document in the uploaded image, in pixels
+  width: number;
+  height: number;
+  // Fraction (0-1) of the photo the card fills, when the card outline was found
+  coverage?: number;
+}
+
+export interface QualityThresholds {
+  minSharpness: number;
+  maxGlare: number;
+  // Minimum pixels along the document's long side
+  minResolution: number;
+  minCoverage: number;
+}
+
+const readThreshold = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+};
+
+export class ImageQualityService {
+  // Set QUALITY_GATE=false to send every upload to OCR regardless of quality
+  static isEnabled(): boolean {
+    return process.env.QUALITY_GATE !== 'false';
+  }
+
+  static getThresholds(): QualityThresholds {
+    return {
+      minSharpness: readThreshold('QUALITY_MIN_SHARPNESS', DEFAULT_THRESHOLDS.minSharpness),
+      maxGlare: readThreshold('QUALITY_MAX_GLARE', DEFAULT_THRESHOLDS.maxGlare),
+      minResolution: readThreshold('QUALITY_MIN_RESOLUTION', DEFAULT_THRESHOLDS.minResolution),
+      minCoverage: readThreshold('QUALITY_MIN_COVERAGE', DEFAULT_THRESHOLDS.minCoverage)
+    };
+  }
+
+  // Score an image of the document (ideally already cropped to the card, before contrast normalization)
+  static async measure(image: string | Buffer, coverage?: number): Promise<QualityMetrics> {
+    const { width, height } = await sharp(image).metadata();
+
+    const { data, info } = await sharp(image)
+      .resize({ width: SHARPNESS_WIDTH })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      sharpness: Math.round(this.laplacianVariance(data, info.width, info.height)),
+      glare: Math.round(this.glareFraction(data, info.width, info.height) * 1000) / 1000,
+      width,
+      height,
+      coverage: coverage === undefined ? undefined : Math.round(coverage * 100) / 100
+    };
+  }
+
+  // Problems with the image, in the order a retake should address them; empty when it is good enough to read
+  static findIssues(metrics: QualityMetrics, thresholds: QualityThresholds = this.getThresholds()): ApiErrorIssue[] {
+    const issues: ApiErrorIssue[] = [];
+
+    if (Math.max(metrics.width, metrics.height) < thresholds.minResolution) {
+      issues.push({
+        code: 'low_resolution',
+        message: `The ID is only ${Math.max(metrics.width, metrics.height)} pixels wide; at least ${thresholds.minResolution} are needed to read it.`,
+        advice: 'Move the camera closer or use a higher resolution setting.'
+      });
+    }
+    if (metrics.coverage !== undefined && metrics.coverage < thresholds.minCoverage) {
+      issues.push({
+        code: 'card_too_small',
+        message: `The ID fills only ${Math.round(metrics.coverage * 100)}% of the photo.`,
+        advice: 'Hold the camera closer so the ID fills most of the frame.'
+      });
+    }
+    if (metrics.sharpness < thresholds.minSharpness) {
+      issues.push({
+        code: 'blurry',
+        message: 'The photo is too blurry to read.',
+        advice: 'Hold the camera steady, tap to focus on the ID and make sure there is enough light.'
+      });
+    }
+    if (metrics.glare > thresholds.maxGlare) {
+      issues.push({
+        code: 'glare',
+        message: `Glare covers about ${Math.round(metrics.glare * 100)}% of the ID.`,
+        advice: 'Tilt the ID slightly or move away from direct light to remove reflections.'
+      });
+    }
+
+    return issues;
+  }
+
+  // Reject images below the configured thresholds with a 422 listing every problem found. `label`
+  // prefixes each message, e.g. to say which side of a two-sided upload is the problem.
+  static assertAcceptable(metrics: QualityMetrics, label?: string): void {
+    const issues = this.findIssues(metrics)
+      .map(issue => label ? { ...issue, message: `${label}: ${issue.message}` } : issue);
+    if (issues.length > 0) {
+      throw createError(`Image quality too low: ${issues.map(issue => issue.message).join(' ')}`, 422, issues);
+    }
+  }
+
+  // Variance of the 4-neighbour Laplacian
+  private static laplacianVariance(data: Buffer, width: number, height: number): number {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const value = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+        sum += value;
+        sumSquares += value * value;
+        count++;
+      }
+    }
+
+    if (count === 0) {
+      return 0;
+    }
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+  }
+
+  // Fraction of the image in blocks that are almost entirely clipped and brighter than is typical for
+  // the image. Requiring whole blocks ignores the white gaps in barcodes and fine print; comparing with
+  // the median ignores the white background of scans and digital images.
+  private static glareFraction(data: Buffer, width: number, height: number): number {
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < data.length; i++) {
+      histogram[data[i]]++;
+    }
+
+    let median = 0;
+    for (let count = 0; median < 255 && count + histogram[median] < data.length / 2; median++) {
+      count += histogram[median];
+    }
+    const level = Math.max(GLARE_LEVEL, median + GLARE_MARGIN);
+
+    let blocks = 0;
+    let glareBlocks = 0;
+    for (let top = 0; top + GLARE_BLOCK <= height; top += GLARE_BLOCK) {
+      for (let left = 0; left + GLARE_BLOCK <= width; left += GLARE_BLOCK) {
+        let clipped = 0;
+        for (let y = top; y < top + GLARE_BLOCK; y++) {
+          for (let x = left; x < left + GLARE_BLOCK; x++) {
+            if (data[y * width + x] >= level) {
+              clipped++;
+            }
+          }
+        }
+        blocks++;
+        if (clipped >= GLARE_BLOCK * GLARE_BLOCK * GLARE_BLOCK_COVERAGE) {
+          glareBlocks++;
+        }
+      }
+    }
+    return blocks > 0 ? glareBlocks / blocks : 0;
+  }
+}
@@ -0,0 +1,18 @@
+// Console logging with a timestamp on every line, in the format the error handler uses
+export class Logger {
+  static info(message: string, ...details: unknown[]): void {
+    console.log(this.prefix(message), ...details);
+  }
+
+  static warn(message: string, ...details: unknown[]): void {
+    console.warn(this.prefix(message), ...details);
+  }
+
+  static error(message: string, ...details: unknown[]): void {
+    console.error(this.prefix(message), ...details);
+  }
+
+  private static prefix(message: string): string {
+    return `[${new Date().toISOString()}] ${message}`;
+  }
+}
@@ -0,0 +1,22 @@
+import { Migration } from '../models/Migration.js';
+import { DataMigration, MIGRATIONS } from '../migrations/index.js';
+import { Logger } from './logger.js';
+
+export class MigrationService {
+  // Migrations that have not been applied to the connected database yet, in order
+  static async getPending(migrations: DataMigration[] = MIGRATIONS): Promise<DataMigration[]> {
+    const applied = new Set((await Migration.find({}, { name: 1 })).map(migration => migration.name));
+    return migrations.filter(migration => !applied.has(migration.name));
+  }
+
+  // Apply pending migrations one at a time, stopping at the first failure so later migrations never
+  // run against data an earlier one didn't finish converting
+  static async runPending(migrations: DataMigration[] = MIGRATIONS): Promise<void> {
+    for (const migration of await this.getPending(migrations)) {
+      Logger.info(`Applying migration ${migration.name}: ${migration.description}`);
+      const modifiedCount = await migration.up();
+      await Migration.create({ name: migration.name, description: migration.description, modifiedCount });
+      Logger.info(`Applied migration ${migration.name} (${modifiedCount} documents updated)`);
+    }
+  }
+}
@@ -0,0 +1,310 @@
+import { ExtractedIDData } from '../models/ExtractedIDData.js';
+import { normalizeSex } from '../shared/sex.js';
+import { NameParser } from './nameParser.js';
+
+// ICAO 9303 machine-readable zone layouts: ID cards (TD1), older ID cards/visas (TD2), passports (TD3)
+export type MrzFormat = 'TD1' | 'TD2' | 'TD3';
+
+export type MrzCheckName = 'documentNumber' | 'birthDate' | 'expiryDate' | 'optionalData' | 'composite';
+
+export interface MrzResult {
+  format: MrzFormat;
+  // "P" passport, "I"/"A"/"C" ID cards, "V" visa; second letter is issuer-defined
+  documentCode: string;
+  issuingCountry: string;
+  documentNumber: string;
+  surname: string;
+  givenNames: string[];
+  nationality: string;
+  birthDate?: string;
+  sex?: string;
+  expiryDate?: string;
+  optionalData: string;
+  // Result of each check digit present in this format
+  checks: Partial<Record<MrzCheckName, boolean>>;
+  valid: boolean;
+}
+
+const MRZ_LENGTHS: Record<MrzFormat, { lines: number; length: number }> = {
+  TD1: { lines: 3, length: 30 },
+  TD2: { lines: 2, length: 36 },
+  TD3: { lines: 2, length: 44 }
+};
+
+// Letters OCR commonly reads in place of digits in numeric MRZ positions
+const DIGIT_CONFUSIONS: { [letter: string]: string } = {
+  O: '0', Q: '0', D: '0', I: '1', L: '1', Z: '2', S: '5', G: '6', B: '8'
+};
+
+const CHECK_WEIGHTS = [7, 3, 1];
+
+export class MrzParser {
+  // ICAO 9303 check digit: weighted (7, 3, 1) sum of character values modulo 10
+  static checkDigit(value: string): number {
+    let sum = 0;
+    for (let i = 0; i < value.length; i++) {
+      const char = value.charAt(i);
+      let charValue = 0;
+      if (char >= '0' && char <= '9') {
+        charValue = char.charCodeAt(0) - 48;
+      } else if (char >= 'A' && char <= 'Z') {
+        charValue = char.charCodeAt(0) - 55;
+      }
+      sum += charValue * CHECK_WEIGHTS[i % 3];
+    }
+    return sum % 10;
+  }
+
+  // Pick out the MRZ lines from raw OCR text, or return null when there is no MRZ
+  static findMrzLines(lines: string[]): string[] | null {
+    const candidates = lines
+      .map(line => this.cleanLine(line))
+      .filter(line => line.length >= 28 && /^[A-Z0-9<]+$/.test(line) && line.includes('<'));
+
+    for (const format of ['TD3', 'TD2', 'TD1'] as MrzFormat[]) {
+      const { lines: lineCount, length } = MRZ_LENGTHS[format];
+      for (let i = 0; i + lineCount <= candidates.length; i++) {
+        const group = candidates.slice(i, i + lineCount);
+        // Allow a character or two of OCR drift; lines are padded/truncated when parsing
+        if (group.every(line => Math.abs(line.length - length) <= 2)) {
+          return group;
+        }
+      }
+    }
+    return null;
+  }
+
+  static parse(rawLines: string[]): MrzResult {
+    const lines = rawLines.map(line => this.cleanLine(line)).filter(line => line.length > 0);
+    const format = this.detectFormat(lines);
+    const { length } = MRZ_LENGTHS[format];
+    const padded = lines.map(line => line.padEnd(length, '<').substring(0, length));
+
+    switch (format) {
+      case 'TD1':
+        return this.parseTD1(padded);
+      case 'TD2':
+        return this.parseTD2(padded);
+      default:
+        return this.parseTD3(padded);
+    }
+  }
+
+  // Map the MRZ onto ExtractedIDData
+  static toExtractedData(mrz: MrzResult): ExtractedIDData {
+    const data: ExtractedIDData = {};
+
+    if (mrz.documentNumber) data.id = mrz.documentNumber;
+    if (mrz.surname) data.lastName = mrz.surname;
+    if (mrz.givenNames[0]) data.firstName = mrz.givenNames[0];
+    if (mrz.givenNames[1]) data.middleName = mrz.givenNames.slice(1).join(' ');
+    Object.assign(data, NameParser.normalize(data));
+    if (mrz.sex) data.sex = mrz.sex;
+    if (mrz.birthDate) data.dob = mrz.birthDate;
+    if (mrz.expiryDate) data.expirationDate = mrz.expiryDate;
+
+    return data;
+  }
+
+  // Names of the check digits that failed
+  static failedChecks(mrz: MrzResult): MrzCheckName[] {
+    return (Object.keys(mrz.checks) as MrzCheckName[]).filter(name => !mrz.checks[name]);
+  }
+
+  private static detectFormat(lines: string[]): MrzFormat {
+    if (lines.length >= 3) {
+      return 'TD1';
+    }
+    if (lines.length !== 2) {
+      throw new Error(`Expected 2 or 3 MRZ lines, got ${lines.length}`);
+    }
+    // TD2 and TD3 both have two lines; tell them apart by length
+    const averageLength = (lines[0].length + lines[1].length) / 2;
+    return averageLength > 40 ? 'TD3' : 'TD2';
+  }
+
+  private static parseTD3(lines: string[]): MrzResult {
+    const [line1, line2] = lines;
+    const documentNumber = line2.substring(0, 9);
+    const birthDate = this.digits(line2.substring(13, 19));
+    const expiryDate = this.digits(line2.substring(21, 27));
+    const optionalData = line2.substring(28, 42);
+
+    const checks: MrzResult['checks'] = {
+      documentNumber: this.verify(documentNumber, line2.charAt(9)),
+      birthDate: this.verify(birthDate, line2.charAt(19)),
+      expiryDate: this.verify(expiryDate, line2.charAt(27)),
+      composite: this.verify(
+        documentNumber + line2.charAt(9) + birthDate + line2.charAt(19) + expiryDate + line2.charAt(27) + optionalData + line2.charAt(42),
+        line2.charAt(43)
+      )
+    };
+    // The personal number check digit may be "<" when the field is empty
+    if (optionalData.replace(/</g, '') || line2.charAt(42) !== '<') {
+      checks.optionalData = this.verify(optionalData, line2.charAt(42));
+    }
+
+    return this.buildResult('TD3', {
+      documentCode: line1.substring(0, 2),
+      issuingCountry: line1.substring(2, 5),
+      names: line1.substring(5),
+      documentNumber,
+      nationality: line2.substring(10, 13),
+      birthDate,
+      sex: line2.charAt(20),
+      expiryDate,
+      optionalData
+    }, checks);
+  }
+
+  private static parseTD2(lines: string[]): MrzResult {
+    const [line1, line2] = lines;
+    const documentNumber = line2.substring(0, 9);
+    const birthDate = this.digits(line2.substring(13, 19));
+    const expiryDate = this.digits(line2.substring(21, 27));
+    const optionalData = line2.substring(28, 35);
+
+    return this.buildResult('TD2', {
+      documentCode: line1.substring(0, 2),
+      issuingCountry: line1.substring(2, 5),
+      names: line1.substring(5),
+      documentNumber,
+      nationality: line2.substring(10, 13),
+      birthDate,
+      sex: line2.charAt(20),
+      expiryDate,
+      optionalData
+    }, {
+      documentNumber: this.verify(documentNumber, line2.charAt(9)),
+      birthDate: this.verify(birthDate, line2.charAt(19)),
+      expiryDate: this.verify(expiryDate, line2.charAt(27)),
+      composite: this.verify(
+        documentNumber + line2.charAt(9) + birthDate + line2.charAt(19) + expiryDate + line2.charAt(27) + optionalData,
+        line2.charAt(35)
+      )
+    });
+  }
+
+  private static parseTD1(lines: string[]): MrzResult {
+    const [line1, line2, line3] = lines;
+    let documentNumber = line1.substring(5, 14);
+    let documentNumberCheck = line1.charAt(14);
+    let optionalData = line1.substring(15, 30);
+
+    // Document numbers longer than 9 characters continue in the optional data, with "<" in
+    // the check digit position and the real check digit at the end of the overflow
+    if (documentNumberCheck === '<') {
+      const overflow = optionalData.split('<')[0];
+      documentNumber += overflow.slice(0, -1);
+      documentNumberCheck = overflow.slice(-1);
+      optionalData = optionalData.substring(overflow.length);
+    }
+
+    const birthDate = this.digits(line2.substring(0, 6));
+    const expiryDate = this.digits(line2.substring(8, 14));
+    const compositeInput = line1.substring(5, 30)
+      + birthDate + line2.charAt(6)
+      + expiryDate + line2.charAt(14)
+      + line2.substring(18, 29);
+
+    return this.buildResult('TD1', {
+      documentCode: line1.substring(0, 2),
+      issuingCountry: line1.substring(2, 5),
+      names: line3,
+      documentNumber,
+      nationality: line2.substring(15, 18),
+      birthDate,
+      sex: line2.charAt(7),
+      expiryDate,
+      optionalData: optionalData + line2.substring(18, 29)
+    }, {
+      documentNumber: this.verify(documentNumber, documentNumberCheck),
+      birthDate: this.verify(birthDate, line2.charAt(6)),
+      expiryDate: this.verify(expiryDate, line2.charAt(14)),
+      composite: this.verify(compositeInput, line2.charAt(29))
+    });
+  }
+
+  private static buildResult(
+    format: MrzFormat,
+    fields: {
+      documentCode: string;
+      issuingCountry: string;
+      names: string;
+      documentNumber: string;
+      nationality: string;
+      birthDate: string;
+      sex: string;
+      expiryDate: string;
+      optionalData: string;
+    },
+    checks: MrzResult['checks']
+  ): MrzResult {
+    // Names are "SURNAME<<GIVEN<NAMES" with "<" between words
+    const [surnamePart, givenPart = ''] = fields.names.split('<<');
+    const toWords = (value: string) => value.split('<').filter(Boolean);
+
+    return {
+      format,
+      documentCode: this.stripFiller(fields.documentCode),
+      issuingCountry: this.stripFiller(fields.issuingCountry),
+      documentNumber: this.stripFiller(fields.documentNumber),
+      surname: toWords(surnamePart).join(' '),
+      givenNames: toWords(givenPart),
+      nationality: this.stripFiller(fields.nationality),
+      birthDate: this.parseDate(fields.birthDate, 'birth'),
+      // "<" leaves the sex unspecified
+      sex: normalizeSex(fields.sex),
+      expiryDate: this.parseDate(fields.expiryDate, 'expiry'),
+      optionalData: this.stripFiller(fields.optionalData),
+      checks,
+      valid: Object.values(checks).every(Boolean)
+    };
+  }
+
+  // YYMMDD to YYYY-MM-DD. Birth dates cannot be in the future; expiry dates are at most ~50 years out.
+  private static parseDate(value: string, kind: 'birth' | 'expiry'): string | undefined {
+    if (!/^\d{6}$/.test(value)) {
+      return undefined;
+    }
+    const yy = parseInt(value.substring(0, 2), 10);
+    const currentYY = new Date().getFullYear() % 100;
+    const century = kind === 'birth'
+      ? (yy > currentYY ? 1900 : 2000)
+      : (yy >= 70 ? 1900 : 2000);
+    const year = century + yy;
+    const month = value.substring(2, 4);
+    const day = value.substring(4, 6);
+
+    const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+    if (isNaN(date.getTime()) || date.getUTCDate() !== parseInt(day, 10)) {
+      return undefined;
+    }
+    return `${year}-${month}-${day}`;
+  }
+
+  private static verify(value: string, checkChar: string): boolean {
+    const digit = this.digits(checkChar);
+    // "<" is only a valid check digit for an empty field
+    if (digit === '<') {
+      return value.replace(/</g, '') === '';
+    }
+    return /^\d$/.test(digit) && this.checkDigit(value) === parseInt(digit, 10);
+  }
+
+  // Undo common letter/digit OCR confusions in positions that must be numeric
+  private static digits(value: string): string {
+    return value.replace(/[A-Z]/g, letter => DIGIT_CONFUSIONS[letter] || letter);
+  }
+
+  private static stripFiller(value: string): string {
+    return value.replace(/</g, ' ').trim().replace(/\s+/g, ' ');
+  }
+
+  private static cleanLine(line: string): string {
+    return line
+      .toUpperCase()
+      .replace(/[«‹]/g, '<')
+      .replace(/\s+/g, '');
+  }
+}
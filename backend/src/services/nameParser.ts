@@ -0,0 +1,175 @@
+// The parts of a holder's name, as stored on ExtractedIDData and IDData
+export interface NameParts {
+  lastName?: string;
+  firstName?: string;
+  // All middle names in full
+  middleName?: string;
+  // Derived from middleName; kept for records and clients that predate it
+  middleInitial?: string;
+  // Generational suffix in its stored form: JR, SR or a roman numeral
+  suffix?: string;
+  // Nickname printed in quotes or parentheses, e.g. ROBERT "BOB" SMITH
+  preferredName?: string;
+}
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX'];
+const ORDINALS = ['1ST', '2ND', '3RD', '4TH', '5TH', '6TH', '7TH', '8TH', '9TH'];
+
+// Words that start a family name ("DE LA CRUZ", "VAN DER BERG", "BIN ABDULLAH") rather than end
+// the given names, even when a document or OCR provider splits the name before them
+const SURNAME_PARTICLES = [
+  'AL', 'BIN', 'BINT', 'BINTI', 'DA', 'DAL', 'DAS', 'DE', 'DEL', 'DELA', 'DELLA', 'DEN', 'DER', 'DI',
+  'DO', 'DOS', 'DU', 'EL', 'LA', 'LAS', 'LE', 'LOS', 'ST', 'TEN', 'TER', 'VAN', 'VANDER', 'VON'
+];
+
+// Printed in place of a middle name or suffix when there is none
+const NO_VALUE = /^(NONE|NMN|N\/?A)$/i;
+
+// Quoted or parenthesized nickname within a name
+const PREFERRED_NAME = /\s*(?:"([^"]+)"|“([^”]+)”|\(([^)]+)\))\s*/;
+
+export class NameParser {
+  // Split a name printed on one line: "LAST, FIRST MIDDLE SUFFIX" (AAMVA also separates with "$")
+  // or, without a separator, "FIRST MIDDLE LAST SUFFIX"
+  static parseFullName(value: string): NameParts {
+    const text = this.clean(value);
+    if (!text) {
+      return {};
+    }
+
+    const separated = text.split(/\s*[,$]\s*/).filter(Boolean);
+    if (separated.length > 1) {
+      const [lastName, ...givenNames] = separated;
+      const [firstName, ...middleNames] = givenNames.join(' ').split(' ');
+      return this.normalize({ lastName, firstName, middleName: middleNames.join(' ') || undefined });
+    }
+
+    const words = text.split(' ');
+    // A trailing numeral after the family name is a suffix even when it could be an initial (JOHN SMITH V)
+    const suffix = words.length > 2 ? this.normalizeSuffix(words[words.length - 1]) : undefined;
+    if (suffix) {
+      words.pop();
+    }
+    if (words.length === 1) {
+      return this.normalize({ lastName: words[0], suffix });
+    }
+
+    // The family name is the last word plus any particles before it, keeping at least a first name
+    let surnameStart = words.length - 1;
+    while (surnameStart > 1 && this.isParticle(words[surnameStart - 1])) {
+      surnameStart--;
+    }
+    return this.normalize({
+      firstName: words[0],
+      middleName: words.slice(1, surnameStart).join(' ') || undefined,
+      lastName: words.slice(surnameStart).join(' '),
+      suffix
+    });
+  }
+
+  // Tidy name parts read as separate fields and move words that were split into the wrong part:
+  // nicknames into preferredName, suffixes out of the names and surname particles into the family
+  // name. The middle initial is derived from the middle name when there is one.
+  static normalize(parts: NameParts): NameParts {
+    let lastName = this.clean(parts.lastName);
+    let firstName = this.clean(parts.firstName);
+    let middleName = this.clean(parts.middleName);
+    let preferredName = this.clean(parts.preferredName);
+    let suffix = this.clean(parts.suffix);
+    if (middleName && NO_VALUE.test(middleName)) {
+      middleName = undefined;
+    }
+    if (suffix) {
+      suffix = NO_VALUE.test(suffix) ? undefined : this.normalizeSuffix(suffix) || suffix.toUpperCase();
+    }
+
+    // ROBERT "BOB" -> ROBERT, preferred name BOB
+    const takePreferredName = (value?: string): string | undefined => {
+      const match = value?.match(PREFERRED_NAME);
+      if (!match) {
+        return value;
+      }
+      preferredName = preferredName || this.clean(match[1] || match[2] || match[3]);
+      return this.clean(value.replace(PREFERRED_NAME, ' '));
+    };
+    firstName = takePreferredName(firstName);
+    middleName = takePreferredName(middleName);
+    lastName = takePreferredName(lastName);
+
+    // SMITH JR / JOHN ALLEN JR -> suffix JR. Single-letter numerals (I, V) are only taken after the
+    // family name, since after a given name they are more likely an initial.
+    const takeSuffix = (value: string | undefined, allowInitials: boolean): string | undefined => {
+      const words = value?.split(' ') || [];
+      const candidate = words.length > 1 && words[words.length - 1].replace(/\./g, '');
+      const found = candidate && (allowInitials || candidate.length > 1) && this.normalizeSuffix(candidate);
+      if (!found) {
+        return value;
+      }
+      suffix = suffix || found;
+      return words.slice(0, -1).join(' ');
+    };
+    lastName = takeSuffix(lastName, true);
+    if (middleName) {
+      middleName = takeSuffix(middleName, false);
+    } else {
+      firstName = takeSuffix(firstName, false);
+    }
+
+    // JUAN CARLOS DE LA + CRUZ -> JUAN CARLOS + DE LA CRUZ. A middle name that is a single particle is
+    // left alone: VAN is also a common Vietnamese middle name.
+    if (lastName) {
+      const givenField = middleName ? 'middle' : 'first';
+      const words = (givenField === 'middle' ? middleName : firstName)?.split(' ') || [];
+      let keep = words.length;
+      while (keep > (givenField === 'first' ? 1 : 0) && this.isParticle(words[keep - 1])) {
+        keep--;
+      }
+      const singleParticle = givenField === 'middle' && words.length === 1;
+      if (keep < words.length && !singleParticle) {
+        lastName = `${words.slice(keep).join(' ')} ${lastName}`;
+        if (givenField === 'middle') {
+          middleName = words.slice(0, keep).join(' ') || undefined;
+        } else {
+          firstName = words.slice(0, keep).join(' ');
+        }
+      }
+    }
+
+    const middleInitial = middleName
+      ? this.middleInitial(middleName)
+      : parts.middleInitial?.trim().charAt(0).toUpperCase() || undefined;
+
+    return { lastName, firstName, middleName, middleInitial, suffix, preferredName };
+  }
+
+  // Stored form of a generational suffix (Jr. -> JR, 3RD -> III), or undefined when it isn't one
+  static normalizeSuffix(value: string): string | undefined {
+    const key = value.toUpperCase().replace(/[.\s]/g, '');
+    if (key === 'JR' || key === 'JNR') {
+      return 'JR';
+    }
+    if (key === 'SR' || key === 'SNR') {
+      return 'SR';
+    }
+    if (ROMAN_NUMERALS.includes(key)) {
+      return key;
+    }
+    const ordinal = ORDINALS.indexOf(key);
+    return ordinal >= 0 ? ROMAN_NUMERALS[ordinal] : undefined;
+  }
+
+  static middleInitial(middleName?: string): string | undefined {
+    const initial = middleName?.trim().charAt(0).toUpperCase();
+    return initial && /^[A-Z]$/.test(initial) ? initial : undefined;
+  }
+
+  private static isParticle(word: string): boolean {
+    return SURNAME_PARTICLES.includes(word.toUpperCase());
+  }
+
+  // Collapse whitespace and the spaces OCR leaves around hyphens (GARCIA - LOPEZ -> GARCIA-LOPEZ)
+  private static clean(value?: string): string | undefined {
+    const cleaned = value?.replace(/\s+/g, ' ').replace(/\s*-\s*/g, '-').replace(/^,|,$/g, '').trim();
+    return cleaned || undefined;
+  }
+}
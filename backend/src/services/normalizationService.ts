@@ -0,0 +1,234 @@
+import {
+  BoundingBox,
+  ExtractedIDData,
+  FieldConfidence,
+  FieldRegions,
+  IDField,
+  NATIVE_SCRIPT_FIELDS,
+  NativeScriptText
+} from '../models/ExtractedIDData.js';
+import { normalizeCountry, normalizePostalCode } from '../shared/postalCodes.js';
+import { normalizeSex } from '../shared/sex.js';
+import { NameParser } from './nameParser.js';
+import { TransliterationService } from './transliterationService.js';
+
+export class NormalizationService {
+  // Map various possible field names to our standard names
+  private static readonly FIELD_MAPPINGS: { [key: string]: IDField } = {
+    'id': 'id',
+    'id_number': 'id',
+    'identification': 'id',
+    'license': 'id',
+    'last_name': 'lastName',
+    'surname': 'lastName',
+    'family_name': 'lastName',
+    'first_name': 'firstName',
+    'given_name': 'firstName',
+    'middle_initial': 'middleInitial',
+    'middle_name': 'middleName',
+    'middle_names': 'middleName',
+    'suffix': 'suffix',
+    'name_suffix': 'suffix',
+    'preferred_name': 'preferredName',
+    'nickname': 'preferredName',
+    'address_street': 'addressStreet',
+    'street': 'addressStreet',
+    'address': 'addressStreet',
+    'address_city': 'addressCity',
+    'city': 'addressCity',
+    'address_state': 'addressState',
+    'state': 'addressState',
+    'address_zip': 'addressZip',
+    'zip': 'addressZip',
+    'zipcode': 'addressZip',
+    'postal_code': 'addressZip',
+    'postcode': 'addressZip',
+    'address_country': 'addressCountry',
+    'country': 'addressCountry',
+    'sex': 'sex',
+    'gender': 'sex',
+    'dob': 'dob',
+    'date_of_birth': 'dob',
+    'birth_date': 'dob',
+    'issue_date': 'issueDate',
+    'date_of_issue': 'issueDate',
+    'issued': 'issueDate',
+    'iss': 'issueDate',
+    'expiration_date': 'expirationDate',
+    'expiry_date': 'expirationDate',
+    'date_of_expiry': 'expirationDate',
+    'expires': 'expirationDate',
+    'exp': 'expirationDate',
+    'document_class': 'documentClass',
+    'license_class': 'documentClass',
+    'class': 'documentClass',
+    'endorsements': 'endorsements',
+    'end': 'endorsements',
+    'restrictions': 'restrictions',
+    'restr': 'restrictions',
+    'height': 'height',
+    'hgt': 'height',
+    'weight': 'weight',
+    'wgt': 'weight',
+    'eye_color': 'eyeColor',
+    'eyes': 'eyeColor',
+    'hair_color': 'hairColor',
+    'hair': 'hairColor',
+    'organ_donor': 'organDonor',
+    'donor': 'organDonor'
+  };
+
+  // Map provider-specific field names onto ExtractedIDData and clean up common formatting issues
+  static normalizeExtractedData(data: any): ExtractedIDData {
+    const normalized: ExtractedIDData = {};
+
+    // Apply mappings and clean data
+    Object.keys(data).forEach(key => {
+      const normalizedKey = this.mapFieldName(key);
+      if (normalizedKey === 'organDonor' && data[key] !== undefined && data[key] !== null && data[key] !== '') {
+        // Providers answer true/false, "Y"/"N" or print "ORGAN DONOR" on the card
+        normalized.organDonor = data[key] === true || /^(Y|YES|TRUE|1|(ORGAN\s*)?DONOR)$/i.test(String(data[key]).trim());
+      } else if (normalizedKey && data[key]) {
+        let value = String(data[key]).trim();
+
+        // Clean up common formatting issues
+        if (normalizedKey === 'middleInitial') {
+          value = value.toUpperCase().substring(0, 1);
+        } else if (normalizedKey === 'sex') {
+          // Unrecognized markers are dropped rather than guessed
+          value = normalizeSex(value);
+        } else if (['documentClass', 'endorsements', 'restrictions', 'eyeColor', 'hairColor'].includes(normalizedKey)) {
+          value = value.toUpperCase();
+        }
+
+        if (value) {
+          (normalized as any)[normalizedKey] = value;
+        }
+      }
+    });
+
+    this.applyNativeScript(data.nativeScript, normalized);
+
+    // Move suffixes, nicknames and surname particles split into the wrong part, and derive the middle initial
+    Object.assign(normalized, NameParser.normalize(normalized));
+
+    // Postal codes are formatted for their country, so normalize the country first
+    if (normalized.addressCountry) {
+      normalized.addressCountry = normalizeCountry(normalized.addressCountry);
+    }
+    if (normalized.addressZip) {
+      normalized.addressZip = normalizePostalCode(normalized.addressZip, normalized.addressCountry);
+    }
+
+    // Per-field confidence reported by the provider, keyed like the fields themselves
+    if (data.confidence && typeof data.confidence === 'object') {
+      const fieldConfidence: FieldConfidence = {};
+      Object.keys(data.confidence).forEach(key => {
+        const normalizedKey = this.mapFieldName(key);
+        const score = Number(data.confidence[key]);
+        if (normalizedKey && normalized[normalizedKey] !== undefined && Number.isFinite(score)) {
+          fieldConfidence[normalizedKey] = Math.min(1, Math.max(0, score));
+        }
+      });
+
+      if (Object.keys(fieldConfidence).length > 0) {
+        normalized.fieldConfidence = fieldConfidence;
+      }
+    }
+
+    // Image regions reported by the provider, keyed like the fields themselves
+    if (data.regions && typeof data.regions === 'object') {
+      const fieldRegions: FieldRegions = {};
+      Object.keys(data.regions).forEach(key => {
+        const normalizedKey = this.mapFieldName(key);
+        const box = this.normalizeBoundingBox(data.regions[key]);
+        if (normalizedKey && normalized[normalizedKey] !== undefined && box) {
+          fieldRegions[normalizedKey] = box;
+        }
+      });
+
+      if (Object.keys(fieldRegions).length > 0) {
+        normalized.fieldRegions = fieldRegions;
+      }
+    }
+
+    // Region of the holder's portrait photo
+    const portraitRegion = data.portrait && this.normalizeBoundingBox(data.portrait);
+    if (portraitRegion) {
+      normalized.portraitRegion = portraitRegion;
+    }
+
+    // Machine-readable zone text, as an array of lines or a single newline-separated string
+    const mrz = Array.isArray(data.mrz) ? data.mrz : typeof data.mrz === 'string' ? data.mrz.split(/\r?\n/) : [];
+    const mrzLines = mrz.map((line: any) => String(line).trim()).filter(Boolean);
+    if (mrzLines.length > 0) {
+      normalized.mrzLines = mrzLines;
+    }
+
+    return normalized;
+  }
+
+  // Collect name and address values printed in a non-Latin script into nativeScript, whether the
+  // provider reported them there or left them in the fields. Fields keep a Latin rendering: the
+  // provider's, or a transliteration where the script allows one; otherwise they are left empty.
+  private static applyNativeScript(reported: any, normalized: ExtractedIDData): void {
+    const nativeScript: NativeScriptText = {};
+
+    NATIVE_SCRIPT_FIELDS.forEach(field => {
+      const native = reported && typeof reported === 'object' && typeof reported[field] === 'string'
+        ? reported[field].trim()
+        : '';
+      if (native && TransliterationService.isNonLatin(native)) {
+        nativeScript[field] = native;
+      }
+
+      if (normalized[field] && TransliterationService.isNonLatin(normalized[field])) {
+        nativeScript[field] = nativeScript[field] || normalized[field];
+        delete normalized[field];
+      }
+      if (!normalized[field] && nativeScript[field]) {
+        const latin = TransliterationService.toLatin(nativeScript[field]);
+        if (latin) {
+          normalized[field] = latin;
+        }
+      }
+    });
+
+    const values = Object.values(nativeScript);
+    if (values.length > 0) {
+      normalized.nativeScript = { ...nativeScript, script: TransliterationService.detectScript(values[0]) };
+    }
+  }
+
+  // Accepts { x, y, width, height } or [x, y, width, height] in 0-1 image fractions
+  static normalizeBoundingBox(value: any): BoundingBox | null {
+    const [x, y, width, height] = (Array.isArray(value)
+      ? value
+      : [value?.x, value?.y, value?.width, value?.height]
+    ).map(Number);
+
+    if (![x, y, width, height].every(Number.isFinite) || width <= 0 || height <= 0) {
+      return null;
+    }
+
+    const clamp = (n: number) => Math.min(1, Math.max(0, n));
+    const left = clamp(x);
+    const top = clamp(y);
+    return {
+      x: left,
+      y: top,
+      width: clamp(x + width) - left,
+      height: clamp(y + height) - top
+    };
+  }
+
+  // Accepts snake_case, camelCase and spaced labels ("last_name", "lastName", "Last Name")
+  private static mapFieldName(key: string): IDField | undefined {
+    const snakeKey = key
+      .trim()
+      .replace(/([a-z])([A-Z])/g, '$1_$2')
+      .toLowerCase()
+      .replace(/\s+/g, '_');
+    return this.FIELD_MAPPINGS[snakeKey];
+  }
+}
@@ -0,0 +1,54 @@
+import { createError } from '../middleware/errorHandler.js';
+import { anthropicOcrProvider } from './anthropicService.js';
+import { fixtureOcrProvider } from './fixtureOcrService.js';
+import { tesseractOcrProvider } from './tesseractOcrService.js';
+import { CircuitBreaker } from './circuitBreaker.js';
+import { DocumentClassification, DocumentType, ExtractedIDData } from '../models/ExtractedIDData.js';
+
+export interface OcrRequest {
+  // Path of the image to read (already converted from HEIC/PDF)
+  imagePath: string;
+  // File name as uploaded by the client, before multer renamed it
+  originalName?: string;
+  // Document type from the classification step, used to pick a type-specific prompt
+  documentType?: DocumentType;
+  // Back of the document for two-sided uploads; read for its barcode, or its text when it has none
+  back?: {
+    imagePath: string;
+    originalName?: string;
+  };
+}
+
+export interface OcrProvider {
+  name: string;
+  // Model and prompt set behind the results; extractions are only cached for providers that set both
+  model?: string;
+  promptVersion?: string;
+  // Set for providers that call a remote service; its state is reported by /api/health
+  circuitBreaker?: CircuitBreaker;
+  // Optional classification step run before extraction; providers without one may
+  // set documentType on the extracted data instead
+  classify?(request: OcrRequest): Promise<DocumentClassification>;
+  extract(request: OcrRequest): Promise<ExtractedIDData>;
+}
+
+const providers: { [name: string]: OcrProvider } = {
+  [anthropicOcrProvider.name]: anthropicOcrProvider,
+  [fixtureOcrProvider.name]: fixtureOcrProvider,
+  [tesseractOcrProvider.name]: tesseractOcrProvider
+};
+
+// Resolve the provider selected by OCR_PROVIDER (defaults to Anthropic)
+export const getOcrProvider = (): OcrProvider => {
+  const name = (process.env.OCR_PROVIDER || anthropicOcrProvider.name).trim().toLowerCase();
+  const provider = providers[name];
+
+  if (!provider) {
+    throw createError(
+      `Unknown OCR provider "${name}". Available providers: ${Object.keys(providers).join(', ')}`,
+      500
+    );
+  }
+
+  return provider;
+};
@@ -0,0 +1,164 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { ApiError, ApiErrorIssue } from '../middleware/errorHandler.js';
+import { DOCUMENT_TYPES, ID_FIELDS, IDField, NATIVE_SCRIPT_FIELDS, NativeScriptField } from '../models/ExtractedIDData.js';
+
+// What the model should put in each field of the extraction tool
+const FIELD_DESCRIPTIONS: Record<IDField, string> = {
+  id: 'Any identification number shown on the document',
+  lastName: "Person's family name/surname in full, including particles and every part of a compound or hyphenated surname (e.g. DE LA CRUZ, GARCIA-LOPEZ), without any suffix",
+  firstName: "Person's first given name",
+  middleName: 'All middle names in full (if present)',
+  middleInitial: 'Middle name initial (if present)',
+  suffix: 'Generational suffix after the name (e.g. JR, SR, III), if present',
+  preferredName: 'Preferred name or nickname printed alongside the legal name (e.g. in quotes), if present',
+  addressStreet: 'Street address line',
+  addressCity: 'City name',
+  addressState: 'State/Province name',
+  addressZip: 'ZIP/Postal code as printed',
+  addressCountry: 'Country of the address as an ISO 3166 alpha-2 code (e.g. US, CA, MX, GB), if printed or implied by the issuer',
+  sex: 'Sex marker as printed: M, F or X (non-binary); U if the document shows it as unspecified',
+  dob: 'Date of birth (in YYYY-MM-DD format if possible)',
+  issueDate: 'Date the document was issued (in YYYY-MM-DD format if possible)',
+  expirationDate: 'Date the document expires (in YYYY-MM-DD format if possible)',
+  documentClass: 'License class (e.g. C, D, M)',
+  endorsements: 'Endorsement codes as printed (or NONE)',
+  restrictions: 'Restriction codes as printed (or NONE)',
+  height: `Height as printed (e.g. 5'-08" or 173 cm)`,
+  weight: 'Weight as printed, with its unit (e.g. 150 lb or 68 kg)',
+  eyeColor: 'Eye color code as printed (e.g. BRO, BLU)',
+  hairColor: 'Hair color code as printed (e.g. BRO, BLK)',
+  organDonor: 'true if the document shows an organ donor indicator, otherwise omit'
+};
+
+const fieldShape = Object.fromEntries(ID_FIELDS.map(field => [
+  field,
+  (field === 'organDonor' ? z.boolean() : z.string()).describe(FIELD_DESCRIPTIONS[field]).optional()
+])) as Record<IDField, z.ZodOptional<z.ZodString | z.ZodBoolean>>;
+
+const nativeScriptShape = Object.fromEntries(NATIVE_SCRIPT_FIELDS.map(field => [
+  field,
+  z.string().describe(`${FIELD_DESCRIPTIONS[field]}, as printed in the non-Latin script`).optional()
+])) as Record<NativeScriptField, z.ZodOptional<z.ZodString>>;
+
+// Input of the extraction tool, i.e. the structured reply to the OCR prompt
+export const ocrResponseSchema = z.object({
+  ...fieldShape,
+  confidence: z.record(z.enum(ID_FIELDS), z.number().min(0).max(1))
+    .describe('How certain you are that each returned field was read correctly, from 0 to 1 (1 = perfectly legible)')
+    .optional(),
+  regions: z.record(z.enum(ID_FIELDS), z.array(z.number().min(0).max(1)).length(4))
+    .describe('Bounding box of each returned field\'s printed value as [x, y, width, height], in fractions (0 to 1) of the image width and height from the top-left corner')
+    .optional(),
+  portrait: z.array(z.number().min(0).max(1)).length(4)
+    .describe('Bounding box of the holder\'s main portrait photo (not ghost images or small security copies) as [x, y, width, height], in fractions (0 to 1) of the image width and height from the top-left corner')
+    .optional(),
+  nativeScript: z.object(nativeScriptShape)
+    .describe('Name and address fields exactly as printed in a non-Latin script (e.g. Cyrillic, Arabic, Greek, Chinese), when the document prints them in one. The top-level fields hold the Latin rendering of the same values.')
+    .optional(),
+  mrz: z.array(z.string())
+    .describe('Each line of the machine-readable zone, transcribed character for character including every "<"')
+    .optional()
+});
+
+export type OcrResponse = z.infer<typeof ocrResponseSchema>;
+
+// Input of the classification tool
+export const classificationResponseSchema = z.object({
+  documentType: z.enum(DOCUMENT_TYPES)
+    .describe('Type of identity document; "unknown" when it does not match any listed type'),
+  issuingJurisdiction: z.string()
+    .describe('Two-letter state or province code for US and Canadian state-issued documents (e.g. "CA", "ON"), otherwise the ISO 3166 alpha-3 code of the issuing country (e.g. "USA")')
+    .optional()
+});
+
+// The model's tool input did not match the schema; names the fields that were wrong
+export class OcrValidationError extends Error implements ApiError {
+  statusCode = 502;
+  status = 'error';
+  fields: string[];
+  issues: ApiErrorIssue[];
+
+  constructor(error: z.ZodError) {
+    const fields = [...new Set(error.errors.map(issue => issue.path.join('.') || '(response)'))];
+    super(`OCR response failed validation for ${fields.length === 1 ? 'field' : 'fields'}: ${fields.join(', ')}`);
+    this.name = 'OcrValidationError';
+    this.fields = fields;
+    this.issues = error.errors.map(issue => ({
+      code: 'invalid_ocr_field',
+      message: `${issue.path.join('.') || 'response'}: ${issue.message}`
+    }));
+  }
+}
+
+// Validate a tool input against its schema, throwing OcrValidationError on failure
+export const parseToolInput = <T extends z.ZodTypeAny>(schema: T, input: unknown): z.infer<T> => {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new OcrValidationError(result.error);
+  }
+  return result.data;
+};
+
+// Tool definition whose input schema is generated from a zod schema, so the model's reply has the
+// same shape the response is validated against
+export const toolFromSchema = (name: string, description: string, schema: z.AnyZodObject): Anthropic.Tool => ({
+  name,
+  description,
+  input_schema: toJsonSchema(schema) as Anthropic.Tool.InputSchema
+});
+
+// JSON Schema for the subset of zod used by the schemas above
+const toJsonSchema = (schema: z.ZodTypeAny): Record<string, unknown> => {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodOptional) {
+    return { ...toJsonSchema(schema.unwrap()), ...description };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      ...(required.length > 0 && { required }),
+      ...description
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    // Records keyed by an enum list their keys; the model may return any subset of them
+    const keys = schema.keySchema instanceof z.ZodEnum ? schema.keySchema.options as string[] : null;
+    const values = toJsonSchema(schema.valueSchema);
+    return keys
+      ? { type: 'object', properties: Object.fromEntries(keys.map(key => [key, values])), additionalProperties: false, ...description }
+      : { type: 'object', additionalProperties: values, ...description };
+  }
+  if (schema instanceof z.ZodArray) {
+    const { exactLength, minLength, maxLength } = schema._def;
+    return {
+      type: 'array',
+      items: toJsonSchema(schema.element),
+      ...((exactLength || minLength) && { minItems: (exactLength || minLength).value }),
+      ...((exactLength || maxLength) && { maxItems: (exactLength || maxLength).value }),
+      ...description
+    };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options, ...description };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return {
+      type: 'number',
+      ...(schema.minValue !== null && { minimum: schema.minValue }),
+      ...(schema.maxValue !== null && { maximum: schema.maxValue }),
+      ...description
+    };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean', ...description };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: 'string', ...description };
+  }
+  throw new Error(`Unsupported schema type for tool definition: ${schema._def.typeName}`);
+};
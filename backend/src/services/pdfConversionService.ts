@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import { createCanvas, Canvas, DOMMatrix as NapiDOMMatrix, Path2D as NapiPath2D, SKRSContext2D } from '@napi-rs/canvas';
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.js';
+import { createError } from '../middleware/errorHandler.js';
+
+// Render at roughly 200 DPI (PDF user space is 72 units per inch) so small ID text stays legible
+const RENDER_SCALE = 200 / 72;
+
+interface CanvasAndContext {
+  canvas: Canvas;
+  context: SKRSContext2D;
+}
+
+// Fonts for PDFs that reference the standard 14 fonts without embedding them
+const STANDARD_FONT_DATA_URL = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+let pdfjsModule: Promise<typeof import('pdfjs-dist/legacy/build/pdf.js')> | null = null;
+
+// The DOM classes pdf.js looks for on the global object; Node doesn't have them
+declare global {
+  // eslint-disable-next-line no-var
+  var DOMMatrix: typeof NapiDOMMatrix | undefined;
+  // eslint-disable-next-line no-var
+  var Path2D: typeof NapiPath2D | undefined;
+}
+
+// pdf.js only polyfills DOMMatrix/Path2D from the `canvas` package, so provide them before it loads
+const loadPdfjs = () => {
+  if (!pdfjsModule) {
+    globalThis.DOMMatrix = globalThis.DOMMatrix || NapiDOMMatrix;
+    globalThis.Path2D = globalThis.Path2D || NapiPath2D;
+    pdfjsModule = import('pdfjs-dist/legacy/build/pdf.js');
+  }
+  return pdfjsModule;
+};
+
+// pdf.js expects a factory it can ask for scratch canvases while rendering
+class NapiCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext): void {
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+  }
+}
+
+export class PdfConversionService {
+  static async convertPdfToPng(pdfPath: string, pageNumber: number = 1): Promise<string> {
+    const canvasFactory = new NapiCanvasFactory();
+    const pdfjs = await loadPdfjs();
+    let document: PDFDocumentProxy;
+
+    try {
+      const pdfData = new Uint8Array(fs.readFileSync(pdfPath));
+      document = await pdfjs.getDocument({
+        data: pdfData,
+        canvasFactory,
+        standardFontDataUrl: STANDARD_FONT_DATA_URL,
+        disableFontFace: true,
+        isEvalSupported: false
+      }).promise;
+    } catch (error) {
+      console.error('PDF load error:', error);
+      throw createError('Could not read PDF file', 400);
+    }
+
+    try {
+      if (pageNumber < 1 || pageNumber > document.numPages) {
+        throw createError(
+          `Page ${pageNumber} does not exist. The PDF has ${document.numPages} page(s).`,
+          400
+        );
+      }
+
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const { canvas, context } = canvasFactory.create(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+
+      // Scanned pages are often transparent outside the image; OCR needs a white background
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      // SKRSContext2D implements CanvasRenderingContext2D, the DOM type pdf.js declares
+      await page.render({
+        canvasContext: context,
+        viewport
+      }).promise;
+
+      // Generate new filename with .png extension
+      const parsedPath = path.parse(pdfPath);
+      const pngPath = path.join(parsedPath.dir, `${parsedPath.name}-p${pageNumber}.png`);
+
+      fs.writeFileSync(pngPath, canvas.toBuffer('image/png'));
+
+      // Remove original PDF file to save space
+      fs.unlinkSync(pdfPath);
+
+      return pngPath;
+    } catch (error: any) {
+      if (error.statusCode) {
+        throw error;
+      }
+      console.error('PDF conversion error:', error);
+      throw new Error(`Failed to convert PDF file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  static async convertIfPdf(filePath: string, mimeType: string, pageNumber: number = 1): Promise<string> {
+    if (mimeType === 'application/pdf') {
+      return await this.convertPdfToPng(filePath, pageNumber);
+    }
+    return filePath;
+  }
+}
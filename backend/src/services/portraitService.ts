@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { BoundingBox, DocumentType, ExtractedIDData } from '../models/ExtractedIDData.js';
+import { SignedUrlService } from './signedUrlService.js';
+
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 320;
+// Crops smaller than this (in pixels on a side) are too small to be a portrait
+const MIN_PORTRAIT_SIZE = 24;
+const PORTRAIT_FILE_NAME = /^[\w.-]+-portrait\.jpg$/;
+
+// Where the portrait sits on a document cropped to its edges, as fractions of the image, for when
+// the OCR provider doesn't report it. ICAO 9303 puts the portrait zone on the left of ID-1 cards
+// and passport data pages, and US licenses and ID cards follow the same layout.
+const ID1_PORTRAIT: BoundingBox = { x: 0.03, y: 0.2, width: 0.31, height: 0.62 };
+const PASSPORT_PORTRAIT: BoundingBox = { x: 0.03, y: 0.18, width: 0.28, height: 0.55 };
+const PORTRAIT_LAYOUTS: Partial<Record<DocumentType, BoundingBox>> = {
+  drivers_license: ID1_PORTRAIT,
+  state_id: ID1_PORTRAIT,
+  passport_card: ID1_PORTRAIT,
+  permanent_resident_card: ID1_PORTRAIT,
+  military_id: ID1_PORTRAIT,
+  passport: PASSPORT_PORTRAIT
+};
+
+export interface PortraitResult {
+  // Path of the thumbnail JPEG, under the portrait directory
+  imagePath: string;
+  fileName: string;
+  width: number;
+  height: number;
+  // Whether the OCR provider located the portrait or it was taken from the document's standard layout
+  source: 'ocr' | 'layout';
+}
+
+export class PortraitService {
+  // Set PORTRAIT_EXTRACTION=false to skip cropping portraits
+  static isEnabled(): boolean {
+    return process.env.PORTRAIT_EXTRACTION !== 'false';
+  }
+
+  // Portraits are only served through signed links
+  static getPortraitDir(): string {
+    return path.resolve(process.env.PORTRAIT_DIR || 'portraits');
+  }
+
+  // Crop the holder's portrait from the (front) image and write a thumbnail, or null when it can't
+  // be located. The standard layout is only used for images cropped to the document's edges.
+  static async extract(imagePath: string, data: ExtractedIDData, cropped: boolean): Promise<PortraitResult | null> {
+    const layoutRegion = cropped ? PORTRAIT_LAYOUTS[data.documentType] : undefined;
+    const region = data.portraitRegion || layoutRegion;
+    if (!region) {
+      return null;
+    }
+
+    try {
+      const image = sharp(imagePath);
+      const { width, height } = await image.metadata();
+      const left = Math.round(region.x * width);
+      const top = Math.round(region.y * height);
+      const box = {
+        left,
+        top,
+        width: Math.min(width - left, Math.round(region.width * width)),
+        height: Math.min(height - top, Math.round(region.height * height))
+      };
+      if (box.width < MIN_PORTRAIT_SIZE || box.height < MIN_PORTRAIT_SIZE) {
+        return null;
+      }
+
+      fs.mkdirSync(this.getPortraitDir(), { recursive: true });
+      const fileName = `${path.parse(imagePath).name}-portrait.jpg`;
+      const outputPath = path.join(this.getPortraitDir(), fileName);
+      const output = await image
+        .extract(box)
+        .resize({ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT, fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 85 })
+        .toFile(outputPath);
+
+      return {
+        imagePath: outputPath,
+        fileName,
+        width: output.width,
+        height: output.height,
+        source: data.portraitRegion ? 'ocr' : 'layout'
+      };
+    } catch (error) {
+      // The record is still usable without a portrait
+      console.warn('Portrait extraction failed:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // Path of a stored portrait, or null for names that aren't portrait files
+  static getPath(fileName: string): string | null {
+    return PORTRAIT_FILE_NAME.test(fileName) ? path.join(this.getPortraitDir(), fileName) : null;
+  }
+
+  // Path of GET /api/id/portraits/:fileName for a portrait; sign it with SignedUrlService
+  static getUrlPath(fileName: string): string {
+    return `/api/id/portraits/${encodeURIComponent(fileName)}`;
+  }
+
+  static getSignedUrl(fileName: string, now: number = Date.now()): string {
+    return SignedUrlService.sign(this.getUrlPath(fileName), now);
+  }
+}
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { createError } from '../middleware/errorHandler.js';
+import { DocumentType } from '../models/ExtractedIDData.js';
+
+// Templates are named <name>.v<version>; a new version is a new file so past prompts stay on disk
+const TEMPLATE_NAME = /^[a-z0-9-]+\.v\d+$/;
+
+// Which templates make up each prompt, joined in order
+export interface PromptManifest {
+  classification: string[];
+  // Document types without an entry use the default
+  extraction: { default: string[] } & Partial<Record<DocumentType, string[]>>;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  // The templates used, e.g. "extract.v1+passport.v1"; stored with each record
+  version: string;
+}
+
+export class PromptService {
+  static getPromptsDir(): string {
+    return process.env.PROMPTS_DIR || path.join(process.cwd(), 'prompts');
+  }
+
+  // Re-read on every call so prompts can be edited without restarting the server
+  static loadManifest(): PromptManifest {
+    const manifestPath = path.join(this.getPromptsDir(), 'manifest.json');
+
+    if (!fs.existsSync(manifestPath)) {
+      throw createError(`Prompt manifest not found: ${manifestPath}`, 500);
+    }
+
+    let manifest: PromptManifest;
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    } catch (error) {
+      throw createError(`Failed to parse prompt manifest: ${manifestPath}`, 500);
+    }
+
+    if (!Array.isArray(manifest.classification) || !Array.isArray(manifest.extraction?.default)) {
+      throw createError(`Prompt manifest must list classification and extraction.default templates: ${manifestPath}`, 500);
+    }
+    return manifest;
+  }
+
+  static getClassificationPrompt(variables: Record<string, string> = {}): RenderedPrompt {
+    return this.render(this.loadManifest().classification, variables);
+  }
+
+  static getExtractionPrompt(documentType?: DocumentType, variables: Record<string, string> = {}): RenderedPrompt {
+    const { extraction } = this.loadManifest();
+    return this.render((documentType && extraction[documentType]) || extraction.default, variables);
+  }
+
+  // Hash of the manifest and every template it lists, plus anything else that shapes the model's
+  // reply (e.g. tool schemas); changes whenever a prompt does
+  static getFingerprint(extra: unknown[] = []): string {
+    const manifest = this.loadManifest();
+    const names = [...new Set([...manifest.classification, ...Object.values(manifest.extraction).flat()])].sort();
+
+    const hash = crypto.createHash('sha256').update(JSON.stringify(manifest));
+    names.forEach(name => hash.update(`\n${name}\n`).update(this.readTemplate(name)));
+    extra.forEach(item => hash.update(`\n${JSON.stringify(item)}`));
+    return hash.digest('hex').slice(0, 12);
+  }
+
+  // Join the templates and fill in {{variable}} placeholders
+  private static render(names: string[], variables: Record<string, string>): RenderedPrompt {
+    const text = names.map(name => this.readTemplate(name).trim()).join('\n\n')
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, variable: string) => {
+        if (!(variable in variables)) {
+          throw createError(`Prompt variable "${variable}" has no value`, 500);
+        }
+        return variables[variable];
+      });
+    return { text, version: names.join('+') };
+  }
+
+  private static readTemplate(name: string): string {
+    if (!TEMPLATE_NAME.test(name)) {
+      throw createError(`Invalid prompt template name "${name}"; expected <name>.v<version>`, 500);
+    }
+
+    const templatePath = path.join(this.getPromptsDir(), `${name}.txt`);
+    if (!fs.existsSync(templatePath)) {
+      throw createError(`Prompt template not found: ${templatePath}`, 500);
+    }
+    return fs.readFileSync(templatePath, 'utf8');
+  }
+}
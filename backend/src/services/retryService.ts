@@ -0,0 +1,83 @@
+export interface RetryConfig {
+  // Retries after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class RetryService {
+  static getConfig(): RetryConfig {
+    return {
+      maxRetries: readNumber('OCR_MAX_RETRIES', 3),
+      baseDelayMs: readNumber('OCR_RETRY_BASE_DELAY_MS', 500),
+      maxDelayMs: readNumber('OCR_RETRY_MAX_DELAY_MS', 10000)
+    };
+  }
+
+  // Call `fn`, retrying errors `isRetryable` accepts with jittered exponential backoff. A retry-after
+  // from the server sets the delay instead; when it asks for longer than maxDelayMs the error is thrown.
+  static async run<T>(
+    fn: () => Promise<T>,
+    isRetryable: (error: any) => boolean,
+    config: RetryConfig = this.getConfig()
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (attempt >= config.maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+
+        const retryAfter = this.retryAfterMs(error);
+        if (retryAfter !== undefined && retryAfter > config.maxDelayMs) {
+          throw error;
+        }
+        const delay = retryAfter ?? this.backoffMs(attempt, config);
+
+        console.warn(`Attempt ${attempt + 1} of ${config.maxRetries + 1} failed, retrying in ${delay}ms:`,
+          error instanceof Error ? error.message : error);
+        await sleep(delay);
+      }
+    }
+  }
+
+  // "Full jitter": a random delay up to the exponential backoff for this attempt
+  static backoffMs(attempt: number, config: RetryConfig): number {
+    const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  // Delay requested by the server via retry-after-ms, or retry-after in seconds or as an HTTP date
+  static retryAfterMs(error: any): number | undefined {
+    const headers = error?.headers;
+    if (!headers) {
+      return undefined;
+    }
+    const header = (name: string): string | undefined =>
+      (typeof headers.get === 'function' ? headers.get(name) : headers[name]) ?? undefined;
+
+    const milliseconds = parseFloat(header('retry-after-ms') || '');
+    if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+      return Math.round(milliseconds);
+    }
+
+    const retryAfter = header('retry-after');
+    if (!retryAfter) {
+      return undefined;
+    }
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return Math.round(seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+
+const DEFAULT_TTL_MINUTES = 60;
+
+// Used when SIGNED_URL_SECRET is unset; links then stop working when the server restarts
+let generatedSecret: string | undefined;
+
+// Links to files holding personal data (processed ID images, portraits), which are never served
+// statically: each link carries an expiry time and an HMAC of the path and expiry
+export class SignedUrlService {
+  static getTtlMinutes(): number {
+    const minutes = parseFloat(process.env.SIGNED_URL_TTL_MINUTES || '');
+    return isNaN(minutes) || minutes <= 0 ? DEFAULT_TTL_MINUTES : minutes;
+  }
+
+  // The path with expires and signature query parameters, valid for SIGNED_URL_TTL_MINUTES
+  static sign(urlPath: string, now: number = Date.now()): string {
+    const expires = Math.floor(now / 1000 + this.getTtlMinutes() * 60);
+    return `${urlPath}?expires=${expires}&signature=${this.hmac(urlPath, expires)}`;
+  }
+
+  static verify(urlPath: string, expires: number, signature: string, now: number = Date.now()): boolean {
+    if (!Number.isInteger(expires) || expires * 1000 < now || !/^[0-9a-f]{64}$/.test(signature)) {
+      return false;
+    }
+    return crypto.timingSafeEqual(Buffer.from(signature, 'hex'), Buffer.from(this.hmac(urlPath, expires), 'hex'));
+  }
+
+  private static hmac(urlPath: string, expires: number): string {
+    return crypto.createHmac('sha256', this.getSecret()).update(`${urlPath}\n${expires}`).digest('hex');
+  }
+
+  private static getSecret(): string {
+    if (process.env.SIGNED_URL_SECRET) {
+      return process.env.SIGNED_URL_SECRET;
+    }
+    if (!generatedSecret) {
+      console.warn('SIGNED_URL_SECRET is not set; image links will stop working when the server restarts');
+      generatedSecret = crypto.randomBytes(32).toString('hex');
+    }
+    return generatedSecret;
+  }
+}
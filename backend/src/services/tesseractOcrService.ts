@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { createWorker, Bbox, Worker } from 'tesseract.js';
+import { createError } from '../middleware/errorHandler.js';
+import { ExtractedIDData } from '../models/ExtractedIDData.js';
+import { OcrProvider } from './ocrProvider.js';
+import { IdTextParser } from './idTextParser.js';
+import { MrzParser } from './mrzParser.js';
+import { NormalizationService } from './normalizationService.js';
+import { DocumentClassificationService } from './documentClassificationService.js';
+
+let workerPromise: Promise<Worker> | null = null;
+
+// Start a single worker on first use; loading the language model takes a few seconds
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    const lang = process.env.TESSERACT_LANG || 'eng';
+    const langPath = process.env.TESSERACT_LANG_PATH;
+
+    // Air-gapped deployments point TESSERACT_LANG_PATH at a local directory of
+    // .traineddata files; otherwise tesseract.js downloads and caches them
+    const gzip = !(langPath && fs.existsSync(path.join(langPath, `${lang}.traineddata`)));
+
+    workerPromise = createWorker(lang, undefined, {
+      ...(langPath && { langPath }),
+      cachePath: process.env.TESSERACT_CACHE_PATH || path.join(process.cwd(), '.tesseract-cache'),
+      gzip
+    }).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+export class TesseractOcrService {
+  static async extractTextFromImage(imagePath: string): Promise<ExtractedIDData> {
+    let lines: { text: string; confidence: number; bbox: Bbox }[];
+    let imageWidth: number;
+    let imageHeight: number;
+
+    try {
+      const worker = await getWorker();
+      const [{ data }, metadata] = await Promise.all([
+        worker.recognize(imagePath),
+        sharp(imagePath).metadata()
+      ]);
+      lines = data.lines.map(line => ({ text: line.text, confidence: line.confidence, bbox: line.bbox }));
+      imageWidth = metadata.width;
+      imageHeight = metadata.height;
+    } catch (error) {
+      console.error('Tesseract OCR error:', error);
+      throw createError('Local OCR engine failed to read the image', 500);
+    }
+
+    const { fields, sourceLines } = IdTextParser.parseLines(lines.map(line => line.text));
+    const mrz = MrzParser.findMrzLines(lines.map(line => line.text));
+    if (Object.keys(fields).length === 0 && !mrz) {
+      throw createError('No ID fields could be read from the image', 422);
+    }
+
+    // Tesseract reports 0-100 confidence and a pixel bounding box per line;
+    // use them for every field read from that line
+    const confidence: { [key: string]: number } = {};
+    const regions: { [key: string]: number[] } = {};
+    Object.keys(sourceLines).forEach(key => {
+      const line = lines[sourceLines[key]];
+      confidence[key] = line.confidence / 100;
+      regions[key] = [
+        line.bbox.x0 / imageWidth,
+        line.bbox.y0 / imageHeight,
+        (line.bbox.x1 - line.bbox.x0) / imageWidth,
+        (line.bbox.y1 - line.bbox.y0) / imageHeight
+      ];
+    });
+
+    // Tesseract has no separate classification step, so classify from the text it read
+    const classification = DocumentClassificationService.fromText(lines.map(line => line.text));
+
+    return {
+      ...NormalizationService.normalizeExtractedData({ ...fields, confidence, regions, mrz }),
+      ...classification
+    };
+  }
+}
+
+export const tesseractOcrProvider: OcrProvider = {
+  name: 'tesseract',
+  extract: ({ imagePath }) => TesseractOcrService.extractTextFromImage(imagePath)
+};
@@ -0,0 +1,84 @@
+// ISO 15924 codes of the non-Latin scripts IDs are printed in
+const SCRIPT_PATTERNS: [string, RegExp][] = [
+  ['Cyrl', /\p{Script=Cyrillic}/u],
+  ['Grek', /\p{Script=Greek}/u],
+  ['Arab', /\p{Script=Arabic}/u],
+  ['Hebr', /\p{Script=Hebrew}/u],
+  ['Hang', /\p{Script=Hangul}/u],
+  ['Hira', /\p{Script=Hiragana}/u],
+  ['Kana', /\p{Script=Katakana}/u],
+  ['Hani', /\p{Script=Han}/u],
+  ['Thai', /\p{Script=Thai}/u],
+  ['Deva', /\p{Script=Devanagari}/u],
+  ['Armn', /\p{Script=Armenian}/u],
+  ['Geor', /\p{Script=Georgian}/u]
+];
+
+// A letter outside the Latin script
+const NON_LATIN_LETTER = /(?!\p{Script=Latin})\p{L}/u;
+
+// ICAO 9303 part 3 transliteration of Cyrillic, including the Ukrainian, Belarusian, Serbian and
+// Macedonian letters; the soft sign is dropped
+const CYRILLIC: { [letter: string]: string } = {
+  А: 'A', Б: 'B', В: 'V', Г: 'G', Д: 'D', Е: 'E', Ё: 'E', Ж: 'ZH', З: 'Z', И: 'I', Й: 'I', К: 'K',
+  Л: 'L', М: 'M', Н: 'N', О: 'O', П: 'P', Р: 'R', С: 'S', Т: 'T', У: 'U', Ф: 'F', Х: 'KH', Ц: 'TS',
+  Ч: 'CH', Ш: 'SH', Щ: 'SHCH', Ъ: 'IE', Ы: 'Y', Ь: '', Э: 'E', Ю: 'IU', Я: 'IA',
+  Є: 'IE', І: 'I', Ї: 'I', Ґ: 'G', Ў: 'U',
+  Ђ: 'D', Ј: 'J', Љ: 'LJ', Њ: 'NJ', Ћ: 'C', Џ: 'DZ', Ѓ: 'G', Ќ: 'K', Ѕ: 'DZ'
+};
+
+// ICAO 9303 part 3 transliteration of Greek (accents are stripped first); the digraphs are
+// matched before single letters
+const GREEK: { [letters: string]: string } = {
+  ΟΥ: 'OU', ΑΥ: 'AV', ΕΥ: 'EV',
+  Α: 'A', Β: 'V', Γ: 'G', Δ: 'D', Ε: 'E', Ζ: 'Z', Η: 'I', Θ: 'TH', Ι: 'I', Κ: 'K', Λ: 'L', Μ: 'M',
+  Ν: 'N', Ξ: 'X', Ο: 'O', Π: 'P', Ρ: 'R', Σ: 'S', Τ: 'T', Υ: 'Y', Φ: 'F', Χ: 'CH', Ψ: 'PS', Ω: 'O'
+};
+
+const TABLES: { [script: string]: { [letters: string]: string } } = {
+  Cyrl: CYRILLIC,
+  Grek: GREEK
+};
+
+export class TransliterationService {
+  // True when the text has letters outside the Latin script
+  static isNonLatin(value: string): boolean {
+    return NON_LATIN_LETTER.test(value);
+  }
+
+  // ISO 15924 code of the first non-Latin script in the text (Zzzz when it isn't listed), or
+  // undefined for Latin-only text
+  static detectScript(value: string): string | undefined {
+    const letter = value.match(NON_LATIN_LETTER)?.[0];
+    return letter && (SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(letter))?.[0] || 'Zzzz');
+  }
+
+  // Uppercase Latin rendering of Cyrillic or Greek text, following the ICAO tables passports use
+  // for their MRZ. Other scripts can't be transliterated letter by letter (Arabic and Hebrew don't
+  // write most vowels, Han characters need their reading), so they return undefined and rely on the
+  // Latin text printed on the document or the OCR provider's rendering.
+  static toLatin(value: string): string | undefined {
+    const script = this.detectScript(value);
+    if (!script) {
+      return value;
+    }
+    const table = TABLES[script];
+    if (!table) {
+      return undefined;
+    }
+
+    const text = value.toUpperCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+    let latin = '';
+    for (let index = 0; index < text.length;) {
+      const pair = table[text.substring(index, index + 2)];
+      if (pair !== undefined) {
+        latin += pair;
+        index += 2;
+      } else {
+        latin += table[text[index]] ?? text[index];
+        index++;
+      }
+    }
+    return this.isNonLatin(latin) ? undefined : latin;
+  }
+}
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { IDData } from '../models/IDData.js';
+import { ImagePreprocessingService } from './imagePreprocessingService.js';
+import { PortraitService } from './portraitService.js';
+
+const DEFAULT_RETENTION_HOURS = 24;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Images written for an upload before it is reviewed and saved, and the record fields that keep
+// them once it is
+interface ImageStore {
+  getDir(): string;
+  // Path of an image in the store, or null for files that aren't its images
+  getPath(fileName: string): string | null;
+  fields: ('processedImage' | 'processedBackImage' | 'portraitImage')[];
+}
+
+const IMAGE_STORES: ImageStore[] = [
+  {
+    getDir: () => ImagePreprocessingService.getProcessedDir(),
+    getPath: fileName => ImagePreprocessingService.getPath(fileName),
+    fields: ['processedImage', 'processedBackImage']
+  },
+  // Portraits are cropped again for every upload, including re-uploads answered from the cache
+  {
+    getDir: () => PortraitService.getPortraitDir(),
+    getPath: fileName => PortraitService.getPath(fileName),
+    fields: ['portraitImage']
+  }
+];
+
+export class UploadCleanupService {
+  // Images of uploads that were rejected are deleted straight away; those of uploads that were
+  // abandoned or never saved are deleted after UNSAVED_UPLOAD_RETENTION_HOURS (default 24)
+  static getRetentionHours(): number {
+    const hours = parseFloat(process.env.UNSAVED_UPLOAD_RETENTION_HOURS || '');
+    return isNaN(hours) || hours <= 0 ? DEFAULT_RETENTION_HOURS : hours;
+  }
+
+  // Delete images older than the retention period that no saved record points to; returns the
+  // number of files deleted
+  static async removeUnsaved(now: number = Date.now()): Promise<number> {
+    const cutoff = now - this.getRetentionHours() * 60 * 60 * 1000;
+    let removedCount = 0;
+
+    for (const store of IMAGE_STORES) {
+      const dir = store.getDir();
+      if (!fs.existsSync(dir)) {
+        continue;
+      }
+
+      const candidates = fs.readdirSync(dir).filter(fileName => {
+        const imagePath = store.getPath(fileName);
+        return imagePath && fs.statSync(imagePath).mtimeMs < cutoff;
+      });
+      if (candidates.length === 0) {
+        continue;
+      }
+
+      const saved = new Set<string>();
+      for (const field of store.fields) {
+        const names: string[] = await IDData.distinct(field, { [field]: { $in: candidates } });
+        names.forEach(name => saved.add(name));
+      }
+
+      candidates.filter(fileName => !saved.has(fileName)).forEach(fileName => {
+        try {
+          fs.unlinkSync(path.join(dir, fileName));
+          removedCount++;
+        } catch (error) {
+          console.error('Failed to remove unsaved upload image:', fileName, error);
+        }
+      });
+    }
+
+    return removedCount;
+  }
+
+  // Sweep now and then every hour; the timer doesn't keep the process alive
+  static start(): NodeJS.Timeout {
+    const sweep = () => this.removeUnsaved()
+      .then(removedCount => {
+        if (removedCount > 0) {
+          console.log(`🧹 Removed ${removedCount} images of unsaved uploads`);
+        }
+      })
+      .catch(error => console.error('Failed to remove images of unsaved uploads:', error));
+
+    sweep();
+    return setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+  }
+}
@@ -0,0 +1,68 @@
+import { FilterQuery } from 'mongoose';
+import { ValidityStatus } from '../models/ExtractedIDData.js';
+import { IIDData } from '../models/IDData.js';
+import { isoToDate, parseDocumentDate, toIsoDate } from '../shared/dates.js';
+import { computeValidityStatus, DEFAULT_EXPIRY_WARNING_DAYS } from '../shared/validity.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ISO strings from extraction, or the Date values stored on records
+export interface ValidityDates {
+  issueDate?: string | Date;
+  expirationDate?: string | Date;
+}
+
+export class ValidityService {
+  // Documents expiring within this many days are flagged as expiring_soon (EXPIRY_WARNING_DAYS, default 30)
+  static getWarningDays(): number {
+    const days = parseInt(process.env.EXPIRY_WARNING_DAYS || '', 10);
+    return Number.isFinite(days) && days >= 0 ? days : DEFAULT_EXPIRY_WARNING_DAYS;
+  }
+
+  // See computeValidityStatus; dates may be in any format parseDocumentDate reads
+  static computeStatus(dates: ValidityDates, now: Date = new Date()): ValidityStatus {
+    const issued = this.parseDate(dates.issueDate);
+    const expires = this.parseDate(dates.expirationDate);
+    return computeValidityStatus({
+      issueDate: issued ? toIsoDate(issued) : undefined,
+      expirationDate: expires ? toIsoDate(expires) : undefined
+    }, this.getWarningDays(), now);
+  }
+
+  // MongoDB conditions on the stored validFrom/expiresAt dates matching a status as of now, so
+  // filtering stays correct after stored statuses go stale
+  static buildQuery(status: ValidityStatus, now: Date = new Date()): FilterQuery<IIDData> {
+    const today = this.startOfDay(now);
+    const warningEnd = new Date(today.getTime() + this.getWarningDays() * DAY_MS);
+    const issued: FilterQuery<IIDData> = { $or: [{ validFrom: null }, { validFrom: { $lte: today } }] };
+
+    switch (status) {
+      case 'not_yet_valid':
+        return { validFrom: { $gt: today } };
+      case 'expired':
+        return { $and: [issued, { expiresAt: { $lt: today } }] };
+      case 'expiring_soon':
+        return { $and: [issued, { expiresAt: { $gte: today, $lte: warningEnd } }] };
+      case 'valid':
+        return { $and: [issued, { expiresAt: { $gt: warningEnd } }] };
+      default:
+        return { $and: [issued, { expiresAt: null }] };
+    }
+  }
+
+  // A stored date, or a date string in any format parseDocumentDate reads, as UTC midnight
+  static parseDate(value?: string | Date): Date | null {
+    if (!value) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value;
+    }
+    const iso = parseDocumentDate(value);
+    return iso ? isoToDate(iso) : null;
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
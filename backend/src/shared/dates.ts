@@ -0,0 +1,161 @@
+// Date parsing and validation for document dates, shared by the backend and DataForm. Dates are
+// exchanged as ISO YYYY-MM-DD strings and stored as UTC midnight. Keep this module free of imports:
+// the frontend compiles it directly.
+
+export const DATE_FIELDS = ['dob', 'issueDate', 'expirationDate'] as const;
+
+export type DateField = typeof DATE_FIELDS[number];
+
+// Order of all-numeric dates such as 03/04/1990: month first in the US, day first elsewhere
+export type DateOrder = 'MDY' | 'DMY';
+
+export interface DateIssue {
+  field: DateField;
+  message: string;
+}
+
+export const MAX_AGE_YEARS = 120;
+
+// Documents are valid for at most a few decades, and expired ones are still read
+export const MAX_DOCUMENT_AGE_YEARS = 50;
+
+// Two-letter jurisdictions are US states or Canadian provinces (see DocumentClassification)
+const CANADIAN_PROVINCES = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+
+// Month name prefixes in English, French, Spanish and German, as printed on passports and
+// bilingual cards (e.g. "12 AUG/AOÛT 1974"); longer prefixes first so JUIN/JUIL aren't read as JUN/JUL
+const MONTH_PREFIXES: [string, number][] = [
+  ['JUIN', 6], ['JUIL', 7],
+  ['JAN', 1], ['ENE', 1], ['FEB', 2], ['FEV', 2], ['MAR', 3], ['MRZ', 3], ['APR', 4], ['AVR', 4],
+  ['ABR', 4], ['MAY', 5], ['MAI', 5], ['JUN', 6], ['JUL', 7], ['AUG', 8], ['AOU', 8], ['AGO', 8],
+  ['SEP', 9], ['OCT', 10], ['OKT', 10], ['NOV', 11], ['DEC', 12], ['DIC', 12], ['DEZ', 12]
+];
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const monthNumber = (name: string): number | undefined => {
+  for (const part of name.split('/')) {
+    const match = MONTH_PREFIXES.find(([prefix]) => part.startsWith(prefix));
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+};
+
+export const dateOrderFor = (jurisdiction?: string): DateOrder => {
+  const code = jurisdiction?.trim().toUpperCase();
+  if (!code || code === 'US' || code === 'USA') {
+    return 'MDY';
+  }
+  if (code.length === 2) {
+    return CANADIAN_PROVINCES.includes(code) ? 'DMY' : 'MDY';
+  }
+  return 'DMY';
+};
+
+// "2024-03-05" for a date stored as UTC midnight
+export const toIsoDate = (date: Date): string => date.toISOString().substring(0, 10);
+
+export const isoToDate = (iso: string): Date => new Date(`${iso}T00:00:00Z`);
+
+// ISO date for a date as printed on a document, or null when it can't be read or doesn't exist
+// (e.g. 02/30). Handles YYYY-MM-DD, YYYYMMDD, numeric dates in `order` (unless the day is over 12,
+// which settles it), and month names ("12 AUG 1974", "AUG 12, 1974"). Two-digit years are taken as
+// 19xx/20xx within 20 years of today, or always in the past when `past` is set (birth dates).
+export const parseDocumentDate = (
+  value: string,
+  options: { order?: DateOrder; past?: boolean; today?: Date } = {}
+): string | null => {
+  const { order = 'MDY', past = false, today = new Date() } = options;
+  const text = value.trim().toUpperCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+  let parts: [string, number | undefined, string] | null = null;
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{4})[-/. ]?(\d{1,2})[-/. ]?(\d{1,2})$/))) {
+    parts = [match[1], Number(match[2]), match[3]];
+  } else if ((match = text.match(/^(\d{1,2})[-/. ](\d{1,2})[-/. ](\d{2}|\d{4})$/))) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    const dayFirst = first > 12 || (second <= 12 && order === 'DMY');
+    parts = dayFirst ? [match[3], second, match[1]] : [match[3], first, match[2]];
+  } else if ((match = text.match(/^(\d{1,2})[-/. ]*([A-Z]+(?:\s*\/\s*[A-Z]+)?)[-/., ]*(\d{2}|\d{4})$/))) {
+    parts = [match[3], monthNumber(match[2].replace(/\s/g, '')), match[1]];
+  } else if ((match = text.match(/^([A-Z]+(?:\s*\/\s*[A-Z]+)?)[-/. ]*(\d{1,2}),?[-/. ]*(\d{2}|\d{4})$/))) {
+    parts = [match[3], monthNumber(match[1].replace(/\s/g, '')), match[2]];
+  }
+  if (!parts || !parts[1]) {
+    return null;
+  }
+
+  const [yearText, month, dayText] = parts;
+  const day = Number(dayText);
+  let year = Number(yearText);
+  if (yearText.length === 2) {
+    const currentYear = today.getUTCFullYear();
+    year += 2000;
+    if (year > currentYear + (past ? 0 : 20)) {
+      year -= 100;
+    }
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// The same day `years` years from today, as an ISO date
+const yearsFromToday = (today: Date, years: number): string =>
+  `${today.getUTCFullYear() + years}${toIsoDate(today).substring(4)}`;
+
+// Whether an ISO date is plausible for its field on its own, without the record's other dates: birth
+// dates as validateDates checks them, issue dates that aren't in the future, and issue and
+// expiration dates within MAX_DOCUMENT_AGE_YEARS of today
+export const isPlausibleDate = (field: DateField, iso: string, today: Date = new Date()): boolean => {
+  if (!ISO_DATE.test(iso)) {
+    return false;
+  }
+  if (field === 'dob') {
+    return validateDates({ dob: iso }, today).length === 0;
+  }
+  if (iso <= yearsFromToday(today, -MAX_DOCUMENT_AGE_YEARS)) {
+    return false;
+  }
+  return field === 'issueDate' ? iso <= toIsoDate(today) : iso < yearsFromToday(today, MAX_DOCUMENT_AGE_YEARS);
+};
+
+// Dates that can't be right: birth dates in the future or over MAX_AGE_YEARS ago, and documents
+// issued before their holder was born or expiring before they were issued. Takes ISO dates; fields
+// that aren't ISO dates are skipped (they're reported as unreadable elsewhere).
+export const validateDates = (
+  dates: Partial<Record<DateField, string>>,
+  today: Date = new Date()
+): DateIssue[] => {
+  const issues: DateIssue[] = [];
+  const todayIso = toIsoDate(today);
+  const [dob, issueDate, expirationDate] = DATE_FIELDS.map(field => {
+    const value = dates[field];
+    return value && ISO_DATE.test(value) ? value : undefined;
+  });
+
+  if (dob) {
+    const oldest = yearsFromToday(today, -MAX_AGE_YEARS);
+    if (dob > todayIso) {
+      issues.push({ field: 'dob', message: 'Date of birth cannot be in the future' });
+    } else if (dob < oldest) {
+      issues.push({ field: 'dob', message: `Date of birth cannot be more than ${MAX_AGE_YEARS} years ago` });
+    }
+  }
+  if (issueDate && dob && issueDate < dob) {
+    issues.push({ field: 'issueDate', message: 'Issue date cannot be before the date of birth' });
+  }
+  if (expirationDate && issueDate && expirationDate < issueDate) {
+    issues.push({ field: 'expirationDate', message: 'Expiration date cannot be before the issue date' });
+  }
+
+  return issues;
+};
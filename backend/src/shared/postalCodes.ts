@@ -0,0 +1,209 @@
+// Postal code formats by country, shared by the backend and DataForm so both accept and print the
+// same codes. Keep this module free of imports: the frontend compiles it directly.
+
+export interface PostalCodeFormat {
+  name: string;
+  // ISO 3166 alpha-3 code, as used in passports and AAMVA barcodes
+  alpha3: string;
+  // Matches the code once uppercased and stripped of spaces, hyphens and any country prefix
+  pattern: RegExp;
+  // Builds the printed form from the pattern's groups
+  format: (...groups: string[]) => string;
+  example: string;
+  // Country prefix sometimes written before the code, e.g. "LT" in "LT-01100"
+  prefix?: string;
+}
+
+const digits = (count: number): Pick<PostalCodeFormat, 'pattern' | 'format'> => ({
+  pattern: new RegExp(`^(\\d{${count}})$`),
+  format: code => code
+});
+
+const digitGroups = (first: number, second: number, separator: string): Pick<PostalCodeFormat, 'pattern' | 'format'> => ({
+  pattern: new RegExp(`^(\\d{${first}})(\\d{${second}})$`),
+  format: (head, tail) => `${head}${separator}${tail}`
+});
+
+const prefixed = (prefix: string, count: number): Pick<PostalCodeFormat, 'pattern' | 'format' | 'prefix'> => ({
+  pattern: new RegExp(`^(\\d{${count}})$`),
+  format: code => `${prefix}-${code}`,
+  prefix
+});
+
+// Keyed by ISO 3166 alpha-2 code (GB, not UK)
+export const POSTAL_CODE_FORMATS: Record<string, PostalCodeFormat> = {
+  US: {
+    name: 'United States',
+    alpha3: 'USA',
+    // ZIP or ZIP+4
+    pattern: /^(\d{5})(\d{4})?$/,
+    format: (zip, plus4) => plus4 ? `${zip}-${plus4}` : zip,
+    example: '90210'
+  },
+  CA: {
+    name: 'Canada',
+    alpha3: 'CAN',
+    // D, F, I, O, Q and U are never used; W and Z never start a code
+    pattern: /^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])(\d[ABCEGHJ-NPRSTV-Z]\d)$/,
+    format: (area, unit) => `${area} ${unit}`,
+    example: 'K1A 0B1'
+  },
+  MX: { name: 'Mexico', alpha3: 'MEX', ...digits(5), example: '06000' },
+  GB: {
+    name: 'United Kingdom',
+    alpha3: 'GBR',
+    pattern: /^([A-Z]{1,2}\d[A-Z\d]?)(\d[A-Z]{2})$/,
+    format: (outward, inward) => `${outward} ${inward}`,
+    example: 'SW1A 1AA'
+  },
+  AT: { name: 'Austria', alpha3: 'AUT', ...digits(4), example: '1010' },
+  BE: { name: 'Belgium', alpha3: 'BEL', ...digits(4), example: '1000' },
+  BG: { name: 'Bulgaria', alpha3: 'BGR', ...digits(4), example: '1000' },
+  HR: { name: 'Croatia', alpha3: 'HRV', ...digits(5), example: '10000' },
+  CY: { name: 'Cyprus', alpha3: 'CYP', ...digits(4), example: '1010' },
+  CZ: { name: 'Czechia', alpha3: 'CZE', ...digitGroups(3, 2, ' '), example: '110 00' },
+  DK: { name: 'Denmark', alpha3: 'DNK', ...digits(4), example: '1050' },
+  EE: { name: 'Estonia', alpha3: 'EST', ...digits(5), example: '10111' },
+  FI: { name: 'Finland', alpha3: 'FIN', ...digits(5), example: '00100' },
+  FR: { name: 'France', alpha3: 'FRA', ...digits(5), example: '75001' },
+  DE: { name: 'Germany', alpha3: 'DEU', ...digits(5), example: '10115' },
+  GR: { name: 'Greece', alpha3: 'GRC', ...digitGroups(3, 2, ' '), example: '105 57' },
+  HU: { name: 'Hungary', alpha3: 'HUN', ...digits(4), example: '1011' },
+  IE: {
+    name: 'Ireland',
+    alpha3: 'IRL',
+    // Eircode: routing key and unique identifier
+    pattern: /^([AC-FHKNPRTV-Y]\d{2}|D6W)([AC-FHKNPRTV-Y\d]{4})$/,
+    format: (routingKey, identifier) => `${routingKey} ${identifier}`,
+    example: 'D02 X285'
+  },
+  IT: { name: 'Italy', alpha3: 'ITA', ...digits(5), example: '00184' },
+  LV: { name: 'Latvia', alpha3: 'LVA', ...prefixed('LV', 4), example: 'LV-1050' },
+  LT: { name: 'Lithuania', alpha3: 'LTU', ...prefixed('LT', 5), example: 'LT-01100' },
+  LU: { name: 'Luxembourg', alpha3: 'LUX', ...prefixed('L', 4), example: 'L-1009' },
+  MT: {
+    name: 'Malta',
+    alpha3: 'MLT',
+    pattern: /^([A-Z]{3})(\d{4})$/,
+    format: (locality, number) => `${locality} ${number}`,
+    example: 'VLT 1117'
+  },
+  NL: {
+    name: 'Netherlands',
+    alpha3: 'NLD',
+    pattern: /^(\d{4})([A-Z]{2})$/,
+    format: (area, street) => `${area} ${street}`,
+    example: '1012 JS'
+  },
+  PL: { name: 'Poland', alpha3: 'POL', ...digitGroups(2, 3, '-'), example: '00-950' },
+  PT: { name: 'Portugal', alpha3: 'PRT', ...digitGroups(4, 3, '-'), example: '1100-148' },
+  RO: { name: 'Romania', alpha3: 'ROU', ...digits(6), example: '010011' },
+  SK: { name: 'Slovakia', alpha3: 'SVK', ...digitGroups(3, 2, ' '), example: '811 01' },
+  SI: { name: 'Slovenia', alpha3: 'SVN', ...digits(4), example: '1000' },
+  ES: { name: 'Spain', alpha3: 'ESP', ...digits(5), example: '28013' },
+  SE: { name: 'Sweden', alpha3: 'SWE', ...digitGroups(3, 2, ' '), example: '111 52' }
+};
+
+export const POSTAL_CODE_COUNTRIES = Object.keys(POSTAL_CODE_FORMATS);
+
+// State and province codes of the listed countries whose addresses use them; regions elsewhere are
+// printed in full
+export const ADDRESS_REGIONS: Record<string, string[]> = {
+  US: [
+    'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA',
+    'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
+    'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ',
+    'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC',
+    'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
+  ],
+  CA: ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT']
+};
+
+// Codes for countries without a listed format: letters, digits, spaces and hyphens
+const GENERIC_POSTAL_CODE = /^[A-Z0-9][A-Z0-9 -]{1,10}$/;
+
+// Alpha-2 code for an alpha-2 or alpha-3 code or an English country name ("UK" is accepted for GB).
+// Other two-letter values are kept as they are; anything else is undefined.
+export const normalizeCountry = (value?: string): string | undefined => {
+  const key = value?.trim().toUpperCase();
+  if (!key) {
+    return undefined;
+  }
+  if (key === 'UK') {
+    return 'GB';
+  }
+  if (POSTAL_CODE_FORMATS[key]) {
+    return key;
+  }
+
+  const match = POSTAL_CODE_COUNTRIES.find(country =>
+    POSTAL_CODE_FORMATS[country].alpha3 === key || POSTAL_CODE_FORMATS[country].name.toUpperCase() === key);
+  return match || (/^[A-Z]{2}$/.test(key) ? key : undefined);
+};
+
+// The code in its country's printed form, or null when it doesn't match that country's format
+const formatFor = (value: string, country: string): string | null => {
+  const format = POSTAL_CODE_FORMATS[country];
+  if (!format) {
+    return null;
+  }
+
+  let compact = value.toUpperCase().replace(/[\s-]/g, '');
+  if (format.prefix && compact.startsWith(format.prefix)) {
+    compact = compact.substring(format.prefix.length);
+  }
+  const match = compact.match(format.pattern);
+  return match ? format.format(...match.slice(1)) : null;
+};
+
+// Listed countries whose format the code matches; plain digit codes match several
+export const detectPostalCodeCountries = (value: string): string[] =>
+  POSTAL_CODE_COUNTRIES.filter(country => formatFor(value, country) !== null);
+
+// Country a code most likely belongs to when none was read: US for codes a ZIP code could be (as
+// before countries were supported), otherwise the only country whose format matches
+export const guessPostalCodeCountry = (value: string): string | undefined => {
+  const countries = detectPostalCodeCountries(value);
+  if (countries.includes('US')) {
+    return 'US';
+  }
+  return countries.length === 1 ? countries[0] : undefined;
+};
+
+// Print the code the way its country does (e.g. "k1a0b1" -> "K1A 0B1"). Codes that don't match the
+// country's format are only trimmed and uppercased, so nothing is lost.
+export const normalizePostalCode = (value: string, country?: string): string => {
+  const cleaned = value.trim().toUpperCase().replace(/\s+/g, ' ');
+  const resolved = normalizeCountry(country) || guessPostalCodeCountry(cleaned);
+  return (resolved && formatFor(cleaned, resolved)) || cleaned;
+};
+
+// Without a country, any listed format is accepted
+export const isValidPostalCode = (value: string, country?: string): boolean => {
+  const resolved = normalizeCountry(country);
+  if (!resolved) {
+    return detectPostalCodeCountries(value).length > 0;
+  }
+  if (!POSTAL_CODE_FORMATS[resolved]) {
+    return GENERIC_POSTAL_CODE.test(value.trim().toUpperCase());
+  }
+  return formatFor(value, resolved) !== null;
+};
+
+// The five-digit ZIP and +4 extension of a US ZIP code, for mail merges that want them in separate
+// columns. Both are undefined for other countries' codes; zipPlus4 is undefined without an extension.
+export const splitZipCode = (value?: string, country?: string): { zip5?: string; zipPlus4?: string } => {
+  const resolved = normalizeCountry(country);
+  if (!value || (resolved && resolved !== 'US')) {
+    return {};
+  }
+  const match = value.replace(/[\s-]/g, '').match(POSTAL_CODE_FORMATS.US.pattern);
+  return match ? { zip5: match[1], zipPlus4: match[2] } : {};
+};
+
+export const postalCodeErrorMessage = (country?: string): string => {
+  const format = POSTAL_CODE_FORMATS[normalizeCountry(country) || ''];
+  return format
+    ? `Invalid postal code for ${format.name} (e.g. ${format.example})`
+    : 'Invalid postal code format';
+};
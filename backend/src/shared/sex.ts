@@ -0,0 +1,31 @@
+// Sex markers, shared by the backend and DataForm. Keep this module free of imports: the frontend
+// compiles it directly.
+
+// X is the non-binary marker many jurisdictions and ICAO 9303 documents issue; U is for documents
+// that leave the field unspecified
+export const SEX_CODES = ['M', 'F', 'X', 'U'] as const;
+
+export type SexCode = typeof SEX_CODES[number];
+
+export const SEX_LABELS: Record<SexCode, string> = {
+  M: 'Male',
+  F: 'Female',
+  X: 'X (non-binary)',
+  U: 'Unspecified'
+};
+
+// Spellings and codes documents and OCR providers use for each marker. AAMVA barcodes encode sex as
+// 1 (male), 2 (female) or 9 (not specified). States that print X also encode 9, but so do cards that
+// leave sex out, so 9 is only read as unspecified; MRZs use "<" for the same.
+const SEX_ALIASES: Record<string, SexCode> = {
+  M: 'M', MALE: 'M', '1': 'M',
+  F: 'F', FEMALE: 'F', '2': 'F',
+  X: 'X', NONBINARY: 'X', 'NON-BINARY': 'X',
+  U: 'U', UNSPECIFIED: 'U', 'NOT SPECIFIED': 'U', '9': 'U', '<': 'U'
+};
+
+// Stored code for a printed or submitted marker, or undefined when it isn't one
+export const normalizeSex = (value?: string): SexCode | undefined => {
+  const key = value?.trim().toUpperCase().replace(/\s+/g, ' ');
+  return key ? SEX_ALIASES[key] : undefined;
+};
@@ -0,0 +1,44 @@
+// Document validity, shared by ValidityService and DataForm. Keep this module free of imports: the
+// frontend compiles it directly.
+
+// Whether a document is currently usable, judged from its issue and expiration dates.
+// 'unknown' means no expiration date was captured.
+export const VALIDITY_STATUSES = ['valid', 'expiring_soon', 'expired', 'not_yet_valid', 'unknown'] as const;
+
+export type ValidityStatus = typeof VALIDITY_STATUSES[number];
+
+// Documents expiring within this many days are flagged as expiring_soon; the backend reads
+// EXPIRY_WARNING_DAYS instead when it is set
+export const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// A future issue date wins over everything else, since it means the dates were misread or the
+// document is not genuine; then expired, expiring within the warning window, and valid. Dates are
+// YYYY-MM-DD (anything else counts as missing), so they compare as strings.
+export const computeValidityStatus = (
+  dates: { issueDate?: string; expirationDate?: string },
+  warningDays: number = DEFAULT_EXPIRY_WARNING_DAYS,
+  now: Date = new Date()
+): ValidityStatus => {
+  const today = now.toISOString().substring(0, 10);
+  const warningEnd = new Date(Date.parse(`${today}T00:00:00Z`) + warningDays * DAY_MS).toISOString().substring(0, 10);
+  const issueDate = dates.issueDate && ISO_DATE.test(dates.issueDate) ? dates.issueDate : undefined;
+  const expirationDate = dates.expirationDate && ISO_DATE.test(dates.expirationDate) ? dates.expirationDate : undefined;
+
+  if (issueDate && issueDate > today) {
+    return 'not_yet_valid';
+  }
+  if (!expirationDate) {
+    return 'unknown';
+  }
+  // Documents are valid through the end of their expiration date
+  if (expirationDate < today) {
+    return 'expired';
+  }
+  if (expirationDate <= warningEnd) {
+    return 'expiring_soon';
+  }
+  return 'valid';
+};
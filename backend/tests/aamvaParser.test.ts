@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { AamvaParser } from '../src/services/aamvaParser.js';
+
+// A barcode with one DL subfile and a correct header for the given version
+const buildBarcode = (version: number, elements: { [elementId: string]: string }): string => {
+  const body = `DL${Object.entries(elements).map(([id, value]) => `${id}${value}`).join('\n')}\r`;
+  const jurisdictionVersion = version >= 2 ? '00' : '';
+  const header = `@\n\x1e\rANSI 636001${String(version).padStart(2, '0')}${jurisdictionVersion}01`;
+  const offset = header.length + 10;
+  return `${header}DL${String(offset).padStart(4, '0')}${String(body.length).padStart(4, '0')}${body}`;
+};
+
+const extract = (version: number, elements: { [elementId: string]: string }) =>
+  AamvaParser.toExtractedData(AamvaParser.parse(buildBarcode(version, elements)));
+
+// The same holder as each version of the standard encodes them
+const elementsForVersion = (version: number): { [elementId: string]: string } => {
+  if (version === 1) {
+    return { DAQ: 'S7654321', DAA: 'ROE,RICHARD ALLEN', DBB: '19781102', DBA: '20301102', DBC: '1', DAU: '510' };
+  }
+  if (version <= 3) {
+    return { DAQ: 'S7654321', DCS: 'ROE', DCT: 'RICHARD ALLEN', DBB: '11021978', DBA: '11022030', DBC: '1', DAU: '070 in' };
+  }
+  return {
+    DAQ: 'S7654321', DCS: 'ROE', DAC: 'RICHARD', DAD: 'ALLEN', DBB: '11021978', DBA: '11022030', DBC: '1',
+    DAU: '070 in', DCG: 'USA'
+  };
+};
+
+describe('AamvaParser', () => {
+  it.each([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])('reads names, dates and sex from version %i barcodes', version => {
+    const record = AamvaParser.parse(buildBarcode(version, elementsForVersion(version)));
+
+    expect(record.version).toBe(version);
+    expect(record.jurisdictionVersion).toBe(version >= 2 ? 0 : undefined);
+    expect(AamvaParser.toExtractedData(record)).toMatchObject({
+      id: 'S7654321',
+      lastName: 'ROE',
+      firstName: 'RICHARD',
+      middleName: 'ALLEN',
+      middleInitial: 'A',
+      dob: '1978-11-02',
+      expirationDate: '2030-11-02',
+      sex: 'M',
+      height: '5\'-10"'
+    });
+  });
+
+  it('reads YYYYMMDD dates and postal codes from Canadian barcodes', () => {
+    const data = extract(8, {
+      DCS: 'TREMBLAY', DAC: 'MARIE', DBB: '19850715', DBD: '20200301', DBA: '20280715', DCG: 'CAN', DAK: 'K1A0B1'
+    });
+
+    expect(data).toMatchObject({
+      dob: '1985-07-15',
+      issueDate: '2020-03-01',
+      expirationDate: '2028-07-15',
+      addressCountry: 'CA',
+      addressZip: 'K1A 0B1'
+    });
+  });
+
+  it('takes the date order from the digits when the country is missing', () => {
+    expect(extract(9, { DCS: 'ROE', DBB: '19781102' }).dob).toBe('1978-11-02');
+    expect(extract(9, { DCS: 'ROE', DBB: '11021978' }).dob).toBe('1978-11-02');
+  });
+
+  it('drops dates that are not real calendar dates', () => {
+    const data = extract(10, { DCS: 'ROE', DBB: '02301990', DBA: '13012030', DBD: '0101202' });
+
+    expect(data.dob).toBeUndefined();
+    expect(data.expirationDate).toBeUndefined();
+    expect(data.issueDate).toBeUndefined();
+  });
+
+  it.each([
+    ['1', 'M'],
+    ['2', 'F'],
+    // Not specified, which isn't the same as the X marker
+    ['9', 'U'],
+    ['X', 'X'],
+    ['F', 'F']
+  ])('maps sex code %s to %s', (code, sex) => {
+    expect(extract(10, { DCS: 'ROE', DBC: code }).sex).toBe(sex);
+  });
+
+  it('keeps ZIP+4 extensions and drops zero padding', () => {
+    expect(extract(10, { DCS: 'ROE', DAK: '122071234' })).toMatchObject({ addressZip: '12207-1234', addressCountry: 'US' });
+    expect(extract(10, { DCS: 'ROE', DAK: '122070000  ' }).addressZip).toBe('12207');
+  });
+
+  it('leaves out elements marked NONE or unavailable', () => {
+    const data = extract(10, { DCS: 'ROE', DAC: 'RICHARD', DAD: 'NONE', DCU: 'unavl' });
+
+    expect(data).not.toHaveProperty('middleName');
+    expect(data).not.toHaveProperty('suffix');
+  });
+
+  it('reads what it can from a truncated barcode', () => {
+    const barcode = buildBarcode(10, elementsForVersion(10));
+    const truncated = barcode.substring(0, barcode.indexOf('DBB'));
+
+    const data = AamvaParser.toExtractedData(AamvaParser.parse(truncated));
+
+    expect(data).toMatchObject({ id: 'S7654321', lastName: 'ROE', firstName: 'RICHARD' });
+    expect(data).not.toHaveProperty('dob');
+    expect(data).not.toHaveProperty('expirationDate');
+  });
+
+  it('reads barcodes that omit the subfile designator', () => {
+    const barcode = buildBarcode(10, elementsForVersion(10)).replace(/DL\d{8}(?=DL)/, '');
+
+    expect(AamvaParser.toExtractedData(AamvaParser.parse(barcode))).toMatchObject({ id: 'S7654321', lastName: 'ROE' });
+  });
+
+  it('rejects text that is not an AAMVA barcode', () => {
+    expect(AamvaParser.isAamva('P<UTOERIKSSON<<ANNA<MARIA')).toBe(false);
+    expect(() => AamvaParser.parse('@\n\x1e\rANSI 63600')).toThrow('Not an AAMVA barcode');
+  });
+});
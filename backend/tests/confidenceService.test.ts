@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ConfidenceService } from '../src/services/confidenceService.js';
+
+describe('ConfidenceService.scoreField', () => {
+  it.each([
+    ['CA', undefined, 0.85],
+    ['CA', 'US', 0.85],
+    ['ON', 'US', 0.3],
+    ['ON', 'CA', 0.85],
+    ['ON', 'CAN', 0.85],
+    ['TX', 'CA', 0.3],
+    // Regions of countries without a list aren't checked
+    ['Bavaria', 'DE', 0.85],
+    ['Tokyo', 'JP', 0.85]
+  ])('state %s in %s scores %s', (value, country, score) => {
+    expect(ConfidenceService.scoreField('addressState', value, 'drivers_license', country)).toBe(score);
+  });
+
+  it('checks postal codes against the address country', () => {
+    expect(ConfidenceService.scoreField('addressZip', 'K1A 0B1', 'drivers_license', 'CA')).toBe(0.85);
+    expect(ConfidenceService.scoreField('addressZip', '90210', 'drivers_license', 'CA')).toBe(0.3);
+  });
+
+  it.each([
+    ['dob', '1990-03-04', 0.85],
+    ['dob', '03/04/1990', 0.85],
+    ['dob', '2990-03-04', 0.3],
+    ['dob', '02/30/1990', 0.3],
+    ['expirationDate', '2020-01-01', 0.85],
+    ['issueDate', '2990-01-01', 0.3]
+  ] as const)('%s %s scores %s', (field, value, score) => {
+    expect(ConfidenceService.scoreField(field, value, 'drivers_license')).toBe(score);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { CrossValidationService } from '../src/services/crossValidationService.js';
+
+describe('CrossValidationService.compare', () => {
+  it.each([
+    ['90223-1234', '90223', false],
+    ['90223', '90223-1234', false],
+    ['90223-1234', '902231234', false],
+    ['90223-1234', '90223-5678', true],
+    ['90210-1234', '90223', true],
+    ['K1A 0B1', 'k1a0b1', false]
+  ])('printed postal code %s against %s is a discrepancy: %s', (printed, machine, reported) => {
+    const discrepancies = CrossValidationService.compare({ addressZip: printed }, { addressZip: machine }, 'barcode');
+    expect(discrepancies.length > 0).toBe(reported);
+  });
+
+  it('only compares fields both sources have', () => {
+    expect(CrossValidationService.compare({ lastName: 'SAMPLE' }, { firstName: 'JANE' }, 'mrz')).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { dateOrderFor, isPlausibleDate, parseDocumentDate, validateDates } from '../src/shared/dates.js';
+
+const TODAY = new Date('2026-06-15T12:00:00Z');
+
+describe('parseDocumentDate', () => {
+  it.each([
+    ['1990-03-04', 'MDY', '1990-03-04'],
+    ['19900304', 'DMY', '1990-03-04'],
+    // Both parts could be the month, so the order decides
+    ['03/04/1990', 'MDY', '1990-03-04'],
+    ['03/04/1990', 'DMY', '1990-04-03'],
+    ['03.04.1990', 'DMY', '1990-04-03'],
+    // A day over 12 settles it whatever the order
+    ['25/04/1990', 'MDY', '1990-04-25'],
+    ['04/25/1990', 'DMY', '1990-04-25'],
+    ['12 AUG 1974', 'MDY', '1974-08-12'],
+    ['AUG 12, 1974', 'DMY', '1974-08-12'],
+    ['12 AOÛT/AUG 1974', 'MDY', '1974-08-12'],
+    ['05 JUIL 2030', 'DMY', '2030-07-05'],
+    ['5 MRZ 2030', 'DMY', '2030-03-05']
+  ] as const)('%s read %s is %s', (value, order, expected) => {
+    expect(parseDocumentDate(value, { order, today: TODAY })).toBe(expected);
+  });
+
+  it.each([
+    ['02/30/1990'],
+    ['13/13/1990'],
+    ['1990-13-01'],
+    ['02/29/2023'],
+    ['31 SEPT 2030'],
+    ['12 FOO 1974'],
+    ['yesterday'],
+    ['']
+  ])('%s is not a date', value => {
+    expect(parseDocumentDate(value, { today: TODAY })).toBeNull();
+  });
+
+  it('accepts leap days in leap years', () => {
+    expect(parseDocumentDate('02/29/2024', { today: TODAY })).toBe('2024-02-29');
+  });
+
+  it('reads two-digit years within 20 years of today, or in the past for birth dates', () => {
+    expect(parseDocumentDate('01/01/40', { today: TODAY })).toBe('2040-01-01');
+    expect(parseDocumentDate('01/01/50', { today: TODAY })).toBe('1950-01-01');
+    expect(parseDocumentDate('01/01/40', { past: true, today: TODAY })).toBe('1940-01-01');
+    expect(parseDocumentDate('01/01/26', { past: true, today: TODAY })).toBe('2026-01-01');
+  });
+});
+
+describe('dateOrderFor', () => {
+  it.each([
+    [undefined, 'MDY'],
+    ['USA', 'MDY'],
+    ['TX', 'MDY'],
+    ['ON', 'DMY'],
+    ['CAN', 'DMY'],
+    ['DEU', 'DMY']
+  ])('%s is %s', (jurisdiction, order) => {
+    expect(dateOrderFor(jurisdiction)).toBe(order);
+  });
+});
+
+describe('isPlausibleDate', () => {
+  it.each([
+    ['dob', '1990-03-04', true],
+    ['dob', '2027-01-01', false],
+    ['dob', '1900-01-01', false],
+    ['issueDate', '2020-01-01', true],
+    ['issueDate', '2026-06-16', false],
+    ['issueDate', '1970-01-01', false],
+    ['expirationDate', '2019-01-01', true],
+    ['expirationDate', '2070-01-01', true],
+    ['expirationDate', '2080-01-01', false],
+    ['expirationDate', '01/01/2030', false]
+  ] as const)('%s %s is %s', (field, iso, plausible) => {
+    expect(isPlausibleDate(field, iso, TODAY)).toBe(plausible);
+  });
+});
+
+describe('validateDates', () => {
+  it('accepts consistent dates', () => {
+    expect(validateDates({ dob: '1990-03-04', issueDate: '2020-01-01', expirationDate: '2028-01-01' }, TODAY)).toEqual([]);
+  });
+
+  it.each([
+    [{ dob: '2027-01-01' }, 'dob'],
+    [{ dob: '1900-01-01' }, 'dob'],
+    [{ dob: '1990-03-04', issueDate: '1980-01-01' }, 'issueDate'],
+    [{ issueDate: '2020-01-01', expirationDate: '2019-01-01' }, 'expirationDate']
+  ])('%o is rejected for %s', (dates, field) => {
+    expect(validateDates(dates, TODAY).map(issue => issue.field)).toEqual([field]);
+  });
+
+  it('skips dates that are not ISO dates', () => {
+    expect(validateDates({ dob: '03/04/2090' }, TODAY)).toEqual([]);
+  });
+});
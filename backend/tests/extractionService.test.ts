@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExtractedIDData } from '../src/models/ExtractedIDData.js';
+import { BarcodeService } from '../src/services/barcodeService.js';
+import { ExtractionService } from '../src/services/extractionService.js';
+import { fixtureOcrProvider } from '../src/services/fixtureOcrService.js';
+
+// A version 10 barcode with one DL subfile holding the given elements
+const buildBarcode = (elements: { [elementId: string]: string }): string => {
+  const body = `DL${Object.entries(elements).map(([id, value]) => `${id}${value}`).join('\n')}\r`;
+  const header = '@\n\x1e\rANSI 636014100001';
+  return `${header}DL${String(header.length + 10).padStart(4, '0')}${String(body.length).padStart(4, '0')}${body}`;
+};
+
+// Extract with the given printed values and barcode ZIP (DAK is padded to nine digits)
+const extract = (printed: ExtractedIDData, barcodeZip: string) => {
+  vi.spyOn(fixtureOcrProvider, 'extract').mockResolvedValue(printed);
+  vi.spyOn(BarcodeService, 'decodePdf417').mockResolvedValue(buildBarcode({
+    DAQ: 'D1234567', DCS: 'SAMPLE', DAC: 'JANE', DAJ: 'CA', DAK: barcodeZip, DCG: 'USA'
+  }));
+  return ExtractionService.extract({ imagePath: 'front.jpg' });
+};
+
+beforeEach(() => {
+  vi.stubEnv('OCR_PROVIDER', 'fixture');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('ExtractionService ZIP codes', () => {
+  it('keeps a printed ZIP+4 when the barcode has only its ZIP', async () => {
+    const { extractedData, discrepancies } = await extract({ lastName: 'SAMPLE', addressZip: '90223-1234' }, '902230000');
+
+    expect(extractedData.addressZip).toBe('90223-1234');
+    expect(extractedData.fieldSources?.addressZip).toBe('ocr');
+    expect(discrepancies).toEqual([]);
+  });
+
+  it('uses the barcode ZIP+4 over a different printed one and reports it', async () => {
+    const { extractedData, discrepancies } = await extract({ lastName: 'SAMPLE', addressZip: '90223-1234' }, '902235678');
+
+    expect(extractedData.addressZip).toBe('90223-5678');
+    expect(extractedData.fieldSources?.addressZip).toBe('barcode');
+    expect(discrepancies.map(discrepancy => discrepancy.field)).toEqual(['addressZip']);
+  });
+
+  it('uses the barcode ZIP when the printed one is a different ZIP', async () => {
+    const { extractedData } = await extract({ lastName: 'SAMPLE', addressZip: '90210-1234' }, '902230000');
+
+    expect(extractedData.addressZip).toBe('90223');
+  });
+});
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ExtractionService } from '../src/services/extractionService.js';
+import { MrzParser } from '../src/services/mrzParser.js';
+
+// Specimens from ICAO 9303 parts 4 (TD3), 5 (TD1) and 6 (TD2)
+const TD3 = [
+  'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<',
+  'L898902C36UTO7408122F1204159ZE184226B<<<<<10'
+];
+const TD1 = [
+  'I<UTOD231458907<<<<<<<<<<<<<<<',
+  '7408122F1204159UTO<<<<<<<<<<<6',
+  'ERIKSSON<<ANNA<MARIA<<<<<<<<<<'
+];
+const TD2 = [
+  'I<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<',
+  'D231458907UTO7408122F1204159<<<<<<<6'
+];
+
+// The TD3 specimen with the birth date misread as 13 August
+const TD3_BAD_BIRTH_DATE = [TD3[0], TD3[1].replace('7408122', '7408132')];
+
+describe('MrzParser', () => {
+  it('computes ICAO 9303 check digits', () => {
+    expect(MrzParser.checkDigit('L898902C3')).toBe(6);
+    expect(MrzParser.checkDigit('740812')).toBe(2);
+    expect(MrzParser.checkDigit('120415')).toBe(9);
+    expect(MrzParser.checkDigit('D23145890734')).toBe(9);
+  });
+
+  it('parses the TD3 passport specimen', () => {
+    const mrz = MrzParser.parse(TD3);
+
+    expect(mrz).toMatchObject({
+      format: 'TD3',
+      documentCode: 'P',
+      issuingCountry: 'UTO',
+      documentNumber: 'L898902C3',
+      surname: 'ERIKSSON',
+      givenNames: ['ANNA', 'MARIA'],
+      nationality: 'UTO',
+      birthDate: '1974-08-12',
+      sex: 'F',
+      expiryDate: '2012-04-15',
+      optionalData: 'ZE184226B',
+      valid: true
+    });
+    expect(mrz.checks).toEqual({ documentNumber: true, birthDate: true, expiryDate: true, composite: true, optionalData: true });
+  });
+
+  it('parses the TD1 ID card specimen, including its long document number', () => {
+    const mrz = MrzParser.parse(TD1);
+
+    expect(mrz).toMatchObject({
+      format: 'TD1',
+      documentCode: 'I',
+      documentNumber: 'D23145890',
+      surname: 'ERIKSSON',
+      givenNames: ['ANNA', 'MARIA'],
+      birthDate: '1974-08-12',
+      expiryDate: '2012-04-15',
+      valid: true
+    });
+
+    const longNumber = MrzParser.parse([
+      'I<UTOD23145890<7349<<<<<<<<<<<',
+      '3407127M9507122UTO<<<<<<<<<<<2',
+      'STEVENSON<<PETER<JOHN<<<<<<<<<'
+    ]);
+    expect(longNumber.documentNumber).toBe('D23145890734');
+    expect(longNumber.checks.documentNumber).toBe(true);
+  });
+
+  it('parses the TD2 specimen', () => {
+    const mrz = MrzParser.parse(TD2);
+
+    expect(mrz).toMatchObject({
+      format: 'TD2',
+      documentNumber: 'D23145890',
+      surname: 'ERIKSSON',
+      birthDate: '1974-08-12',
+      expiryDate: '2012-04-15',
+      valid: true
+    });
+  });
+
+  it('undoes letter/digit confusions in numeric positions', () => {
+    const mrz = MrzParser.parse([TD3[0], TD3[1].replace('7408122', '74O8I22')]);
+
+    expect(mrz.birthDate).toBe('1974-08-12');
+    expect(mrz.valid).toBe(true);
+  });
+
+  it('reports the check digits that fail', () => {
+    const mrz = MrzParser.parse(TD3_BAD_BIRTH_DATE);
+
+    expect(mrz.valid).toBe(false);
+    expect(MrzParser.failedChecks(mrz)).toEqual(['birthDate', 'composite']);
+  });
+
+  it('finds the MRZ lines among other OCR text', () => {
+    expect(MrzParser.findMrzLines(['PASSPORT', 'ERIKSSON', ...TD3.map(line => ` ${line} `)])).toEqual(TD3);
+    expect(MrzParser.findMrzLines(['NO MACHINE READABLE ZONE HERE'])).toBeNull();
+  });
+
+  it('maps the MRZ onto extracted fields', () => {
+    expect(MrzParser.toExtractedData(MrzParser.parse(TD3))).toMatchObject({
+      id: 'L898902C3',
+      lastName: 'ERIKSSON',
+      firstName: 'ANNA',
+      middleName: 'MARIA',
+      middleInitial: 'M',
+      sex: 'F',
+      dob: '1974-08-12',
+      expirationDate: '2012-04-15'
+    });
+  });
+});
+
+describe('ExtractionService with an MRZ that fails its check digits', () => {
+  const fixturesPath = path.join(os.tmpdir(), `mrz-fixtures-${process.pid}.json`);
+
+  afterEach(() => {
+    fs.rmSync(fixturesPath, { force: true });
+    vi.unstubAllEnvs();
+  });
+
+  it('flags the failed checks and keeps the printed values', async () => {
+    fs.writeFileSync(fixturesPath, JSON.stringify({
+      default: {
+        id: 'L898902C3',
+        lastName: 'ERIKSSON',
+        firstName: 'ANNA',
+        dob: '1974-08-12',
+        documentType: 'passport',
+        mrzLines: TD3_BAD_BIRTH_DATE
+      }
+    }));
+    vi.stubEnv('OCR_PROVIDER', 'fixture');
+    vi.stubEnv('OCR_FIXTURES_PATH', fixturesPath);
+
+    const { extractedData, mrz } = await ExtractionService.extract({
+      imagePath: path.join(__dirname, '..', 'fixtures', 'images', 'sample-drivers-license.jpg'),
+      originalName: 'passport.jpg'
+    });
+
+    expect(mrz.valid).toBe(false);
+    expect(extractedData.mrzValid).toBe(false);
+    expect(extractedData.mrzFailedChecks).toEqual(['birthDate', 'composite']);
+    // An unverified MRZ only fills fields the printed text left empty
+    expect(extractedData.dob).toBe('1974-08-12');
+    expect(extractedData.fieldSources.dob).toBe('ocr');
+    expect(extractedData.expirationDate).toBe('2012-04-15');
+    expect(extractedData.fieldSources.expirationDate).toBe('mrz');
+  });
+});
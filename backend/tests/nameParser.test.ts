@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { NameParser } from '../src/services/nameParser.js';
+
+describe('NameParser.parseFullName', () => {
+  it.each([
+    ['SMITH, JOHN A JR', { lastName: 'SMITH', firstName: 'JOHN', middleName: 'A', middleInitial: 'A', suffix: 'JR' }],
+    ['SMITH$JOHN$ALLEN', { lastName: 'SMITH', firstName: 'JOHN', middleName: 'ALLEN', middleInitial: 'A' }],
+    ['JOHN ALLEN SMITH', { lastName: 'SMITH', firstName: 'JOHN', middleName: 'ALLEN', middleInitial: 'A' }],
+    // Nicknames in quotes or parentheses
+    ['SMITH, ROBERT "BOB" JAMES', { lastName: 'SMITH', firstName: 'ROBERT', middleName: 'JAMES', middleInitial: 'J', preferredName: 'BOB' }],
+    ['ROBERT “BOB” SMITH', { lastName: 'SMITH', firstName: 'ROBERT', preferredName: 'BOB' }],
+    ['MARY (BOBBY JO) SMITH', { lastName: 'SMITH', firstName: 'MARY', preferredName: 'BOBBY JO' }],
+    // Several middle names
+    ['SMITH, JOHN PAUL GEORGE', { lastName: 'SMITH', firstName: 'JOHN', middleName: 'PAUL GEORGE', middleInitial: 'P' }],
+    ['JOHN PAUL GEORGE SMITH', { lastName: 'SMITH', firstName: 'JOHN', middleName: 'PAUL GEORGE', middleInitial: 'P' }],
+    // A single word is the family name
+    ['SMITH', { lastName: 'SMITH' }],
+    ['SMITH,', { lastName: 'SMITH' }],
+    // Suffixes after the family name, including numerals that could be initials
+    ['JOHN SMITH V', { lastName: 'SMITH', firstName: 'JOHN', suffix: 'V' }],
+    ['JOHN SMITH 3RD', { lastName: 'SMITH', firstName: 'JOHN', suffix: 'III' }],
+    // Surname particles
+    ['JUAN CARLOS DE LA CRUZ', { lastName: 'DE LA CRUZ', firstName: 'JUAN', middleName: 'CARLOS', middleInitial: 'C' }],
+    ['VAN DER BERG, ANNA', { lastName: 'VAN DER BERG', firstName: 'ANNA' }],
+    ['GARCIA - LOPEZ, MARIA', { lastName: 'GARCIA-LOPEZ', firstName: 'MARIA' }],
+    ['', {}]
+  ])('%s', (value, expected) => {
+    expect(NameParser.parseFullName(value)).toEqual(expected);
+  });
+});
+
+describe('NameParser.normalize', () => {
+  it.each([
+    [
+      'moves a suffix out of the first name',
+      { lastName: 'SMITH', firstName: 'JOHN JR' },
+      { lastName: 'SMITH', firstName: 'JOHN', suffix: 'JR' }
+    ],
+    [
+      'keeps a single-letter numeral after a given name as an initial',
+      { lastName: 'SMITH', firstName: 'JOHN V' },
+      { lastName: 'SMITH', firstName: 'JOHN V' }
+    ],
+    [
+      'moves surname particles into the family name',
+      { lastName: 'CRUZ', firstName: 'JUAN CARLOS DE LA' },
+      { lastName: 'DE LA CRUZ', firstName: 'JUAN CARLOS' }
+    ],
+    [
+      'leaves a middle name that is a single particle',
+      { lastName: 'NGUYEN', firstName: 'AN', middleName: 'VAN' },
+      { lastName: 'NGUYEN', firstName: 'AN', middleName: 'VAN', middleInitial: 'V' }
+    ],
+    [
+      'drops "no middle name" markers',
+      { lastName: 'SMITH', firstName: 'JOHN', middleName: 'NMN', suffix: 'NONE' },
+      { lastName: 'SMITH', firstName: 'JOHN' }
+    ],
+    [
+      'keeps the middle initial of records without a middle name',
+      { lastName: 'SMITH', firstName: 'JOHN', middleInitial: 'q' },
+      { lastName: 'SMITH', firstName: 'JOHN', middleInitial: 'Q' }
+    ]
+  ])('%s', (_, parts, expected) => {
+    expect(NameParser.normalize(parts)).toEqual(expected);
+  });
+});
+
+describe('NameParser.normalizeSuffix', () => {
+  it.each([
+    ['Jr.', 'JR'],
+    ['SNR', 'SR'],
+    ['iv', 'IV'],
+    ['2nd', 'II'],
+    ['ESQ', undefined]
+  ])('%s is %s', (value, suffix) => {
+    expect(NameParser.normalizeSuffix(value)).toBe(suffix);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  guessPostalCodeCountry,
+  isValidPostalCode,
+  normalizeCountry,
+  normalizePostalCode,
+  postalCodeErrorMessage,
+  splitZipCode
+} from '../src/shared/postalCodes.js';
+
+describe('normalizeCountry', () => {
+  it.each([
+    ['us', 'US'],
+    ['CAN', 'CA'],
+    ['United Kingdom', 'GB'],
+    ['UK', 'GB'],
+    // Unlisted two-letter codes are kept
+    ['JP', 'JP'],
+    ['JPN', undefined],
+    ['', undefined],
+    [undefined, undefined]
+  ])('%s is %s', (value, country) => {
+    expect(normalizeCountry(value)).toBe(country);
+  });
+});
+
+describe('normalizePostalCode', () => {
+  it.each([
+    ['k1a0b1', 'CA', 'K1A 0B1'],
+    ['902101234', 'US', '90210-1234'],
+    ['sw1a1aa', 'GB', 'SW1A 1AA'],
+    ['01100', 'LT', 'LT-01100'],
+    ['LT01100', 'LTU', 'LT-01100'],
+    ['1012js', 'NL', '1012 JS'],
+    // Without a country, digit codes are taken to be ZIP codes
+    ['90210', undefined, '90210'],
+    ['k1a 0b1', undefined, 'K1A 0B1'],
+    // Codes that don't match the country's format are kept
+    [' abc  12 ', 'US', 'ABC 12']
+  ])('%s in %s is %s', (value, country, expected) => {
+    expect(normalizePostalCode(value, country)).toBe(expected);
+  });
+});
+
+describe('isValidPostalCode', () => {
+  it.each([
+    ['90210', 'US', true],
+    ['90210-1234', 'US', true],
+    ['9021', 'US', false],
+    ['K1A 0B1', 'CA', true],
+    // D is never used in Canadian codes
+    ['D1A 0B1', 'CA', false],
+    ['1010', 'AT', true],
+    ['10115', 'AT', false],
+    // Unlisted countries only need a plausible code
+    ['100-0001', 'JP', true],
+    ['!!', 'JP', false],
+    // Without a country, any listed format passes
+    ['SW1A 1AA', undefined, true],
+    ['ABCDEFG', undefined, false]
+  ])('%s in %s is %s', (value, country, valid) => {
+    expect(isValidPostalCode(value, country)).toBe(valid);
+  });
+});
+
+describe('guessPostalCodeCountry', () => {
+  it.each([
+    ['90210', 'US'],
+    ['K1A 0B1', 'CA'],
+    ['1012 JS', 'NL'],
+    // Four-digit codes are used by several countries
+    ['1010', undefined],
+    ['ABCDEFG', undefined]
+  ])('%s is %s', (value, country) => {
+    expect(guessPostalCodeCountry(value)).toBe(country);
+  });
+});
+
+describe('splitZipCode', () => {
+  it.each([
+    ['90210-1234', undefined, { zip5: '90210', zipPlus4: '1234' }],
+    ['90210', 'US', { zip5: '90210', zipPlus4: undefined }],
+    ['90210', 'CA', {}],
+    ['K1A 0B1', undefined, {}],
+    [undefined, 'US', {}]
+  ])('%s in %s', (value, country, expected) => {
+    expect(splitZipCode(value, country)).toEqual(expected);
+  });
+});
+
+describe('postalCodeErrorMessage', () => {
+  it('names the country and an example', () => {
+    expect(postalCodeErrorMessage('CA')).toBe('Invalid postal code for Canada (e.g. K1A 0B1)');
+    expect(postalCodeErrorMessage('JP')).toBe('Invalid postal code format');
+  });
+});
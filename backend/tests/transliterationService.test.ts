@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TransliterationService } from '../src/services/transliterationService.js';
+import { IDData } from '../src/models/IDData.js';
+
+describe('TransliterationService', () => {
+  it.each([
+    ['SMITH', false, undefined],
+    ['JOSÉ MÜLLER', false, undefined],
+    ['ИВАНОВ', true, 'Cyrl'],
+    ['ΠΑΠΑΔΟΠΟΥΛΟΣ', true, 'Grek'],
+    ['محمد', true, 'Arab'],
+    ['王', true, 'Hani'],
+    ['김', true, 'Hang'],
+    // The first non-Latin script wins
+    ['IVAN Иван', true, 'Cyrl'],
+    ['ᏣᎳᎩ', true, 'Zzzz']
+  ])('%s', (value, nonLatin, script) => {
+    expect(TransliterationService.isNonLatin(value)).toBe(nonLatin);
+    expect(TransliterationService.detectScript(value)).toBe(script);
+  });
+
+  it.each([
+    ['Иванов', 'IVANOV'],
+    ['Щукин', 'SHCHUKIN'],
+    ['Юлия', 'IULIIA'],
+    // Ukrainian and Serbian letters
+    ['Їжак', 'IZHAK'],
+    ['Ђорђевић', 'DORDEVIC'],
+    ['Παπαδόπουλος', 'PAPADOPOULOS'],
+    ['Ευάγγελος', 'EVAGGELOS'],
+    // Latin text is returned as it is
+    ['Smith', 'Smith']
+  ])('%s is %s', (value, latin) => {
+    expect(TransliterationService.toLatin(value)).toBe(latin);
+  });
+
+  it.each([
+    ['محمد'],
+    ['王小明'],
+    // Mixed scripts that can't all be transliterated
+    ['Иван 王']
+  ])('%s is not transliterated', value => {
+    expect(TransliterationService.toLatin(value)).toBeUndefined();
+  });
+});
+
+describe('IDData.findBySearchTerm', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // "field=regex" for each condition of the search query
+  const searchedFields = (searchTerm: string): string[] => {
+    const find = vi.spyOn(IDData, 'find').mockReturnValue({ sort: vi.fn() } as any);
+    (IDData as any).findBySearchTerm(searchTerm);
+    const [filter] = find.mock.calls[0] as any[];
+    return filter.$or.map((condition: object) => {
+      const [field, { $regex }] = Object.entries(condition)[0];
+      return `${field}=${$regex}`;
+    });
+  };
+
+  it('searches the native-script names and address', () => {
+    const fields = searchedFields('Київ');
+    expect(fields).toEqual(expect.arrayContaining([
+      'nativeScript.lastName=Київ',
+      'nativeScript.firstName=Київ',
+      'nativeScript.middleName=Київ',
+      'nativeScript.addressStreet=Київ',
+      'nativeScript.addressCity=Київ',
+      'nativeScript.addressState=Київ'
+    ]));
+  });
+
+  it('searches the Latin names for a term typed in Cyrillic', () => {
+    const fields = searchedFields('Иванов');
+    expect(fields).toEqual(expect.arrayContaining(['lastName=IVANOV', 'firstName=IVANOV']));
+  });
+});
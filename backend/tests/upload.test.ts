@@ -0,0 +1,174 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/app.js';
+import { IDData } from '../src/models/IDData.js';
+import { ImagePreprocessingService } from '../src/services/imagePreprocessingService.js';
+
+const SAMPLE_IMAGE = path.join(__dirname, '..', 'fixtures', 'images', 'sample-drivers-license.jpg');
+
+// Processed images and portraits written by uploads, removed after each test
+let imageDir: string;
+
+beforeEach(() => {
+  imageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-test-'));
+  vi.stubEnv('OCR_PROVIDER', 'fixture');
+  vi.stubEnv('OCR_FIXTURES_PATH', path.join(__dirname, '..', 'fixtures', 'ocr-fixtures.json'));
+  vi.stubEnv('OCR_CACHE', 'false');
+  // The synthetic card is too clean to score like a photo
+  vi.stubEnv('QUALITY_GATE', 'false');
+  vi.stubEnv('PROCESSED_IMAGE_DIR', path.join(imageDir, 'processed'));
+  vi.stubEnv('PORTRAIT_DIR', path.join(imageDir, 'portraits'));
+  vi.stubEnv('SIGNED_URL_SECRET', 'test-secret');
+  // Saving validates the record against the schema without a database
+  vi.spyOn(IDData.prototype, 'save').mockImplementation(async function (this: InstanceType<typeof IDData>) {
+    await this.validate();
+    return this;
+  });
+});
+
+afterEach(() => {
+  fs.rmSync(imageDir, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+const upload = (fileName: string) => request(app)
+  .post('/api/id/upload')
+  .attach('idImage', fs.readFileSync(SAMPLE_IMAGE), fileName);
+
+describe('upload, extract and save with the fixture provider', () => {
+  it('extracts the fixture for the file name and saves the reviewed record', async () => {
+    const uploaded = await upload('sample-drivers-license.jpg');
+
+    expect(uploaded.status).toBe(200);
+    const { extractedData, processedImage, portrait } = uploaded.body.data;
+    expect(extractedData).toMatchObject({
+      id: 'D1234567',
+      lastName: 'SAMPLE',
+      firstName: 'JANE',
+      middleInitial: 'Q',
+      sex: 'F',
+      dob: '1990-03-04',
+      documentType: 'drivers_license',
+      zip5: '90210'
+    });
+    expect(fs.existsSync(ImagePreprocessingService.getPath(processedImage.fileName))).toBe(true);
+
+    const saved = await request(app)
+      .post('/api/id/save')
+      .send({
+        ...extractedData,
+        firstName: 'JANET',
+        processedImage: processedImage.fileName,
+        portraitImage: portrait?.fileName,
+        sourceFileName: 'sample-drivers-license.jpg'
+      });
+
+    expect(saved.status).toBe(201);
+    expect(saved.body.data.extractedData).toMatchObject({
+      id: 'D1234567',
+      firstName: 'JANET',
+      lastName: 'SAMPLE',
+      dob: '1990-03-04',
+      expirationDate: '2029-03-04'
+    });
+    expect(saved.body.data.metadata.processedImage).toBe(processedImage.fileName);
+  });
+
+  it('matches fixtures by the hash of the image sent to OCR', async () => {
+    // Without preprocessing the provider reads the uploaded bytes as they are
+    vi.stubEnv('IMAGE_PREPROCESSING', 'false');
+
+    const uploaded = await upload('renamed-photo.jpg');
+
+    expect(uploaded.status).toBe(200);
+    expect(uploaded.body.data.extractedData).toMatchObject({
+      id: 'S7654321',
+      lastName: 'ROE',
+      middleName: 'ALLEN',
+      documentType: 'state_id'
+    });
+  });
+
+  it('rejects a record the schema does not accept', async () => {
+    const saved = await request(app)
+      .post('/api/id/save')
+      .send({ lastName: 'SAMPLE', firstName: 'JANE', sex: 'Q' });
+
+    expect(saved.status).toBe(400);
+    expect(saved.body.error.message).toContain('sex');
+  });
+});
+
+describe('processed images', () => {
+  it('are only served through unexpired signed links', async () => {
+    const uploaded = await upload('sample-drivers-license.jpg');
+    const { fileName, url } = uploaded.body.data.processedImage;
+
+    const image = await request(app).get(url);
+    expect(image.status).toBe(200);
+    expect(image.headers['content-type']).toBe('image/jpeg');
+    expect(image.headers['cross-origin-resource-policy']).toBe('same-site');
+
+    const unsigned = await request(app).get(ImagePreprocessingService.getUrlPath(fileName));
+    expect(unsigned.status).toBe(403);
+
+    const expired = ImagePreprocessingService.getSignedUrl(fileName, Date.now() - 2 * 60 * 60 * 1000);
+    expect((await request(app).get(expired)).status).toBe(403);
+
+    // Another file's signature doesn't open this one
+    const otherSignature = url.replace(fileName, 'id-0-0-processed.jpg');
+    expect((await request(app).get(otherSignature)).status).toBe(403);
+
+    expect((await request(app).get(`/uploads/processed/${fileName}`)).status).toBe(404);
+  });
+
+  it('are deleted when the upload is rejected', async () => {
+    // No fixture matches, so extraction fails
+    const fixturesPath = path.join(imageDir, 'no-fixtures.json');
+    fs.writeFileSync(fixturesPath, '{}');
+    vi.stubEnv('OCR_FIXTURES_PATH', fixturesPath);
+
+    const uploaded = await upload('sample-drivers-license.jpg');
+
+    expect(uploaded.status).toBe(422);
+    expect(fs.readdirSync(path.join(imageDir, 'processed'))).toEqual([]);
+  });
+});
+
+describe('saved records', () => {
+  it('return values a migration could not convert', async () => {
+    const record = new IDData({ lastName: 'SAMPLE', firstName: 'JANE', legacyDob: '31/31/1990', legacySex: 'UNSPECIFIED' });
+    vi.spyOn(IDData, 'findById').mockResolvedValue(record);
+
+    const response = await request(app).get(`/api/id/${record._id}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.extractedData).toMatchObject({
+      lastName: 'SAMPLE',
+      legacyDob: '31/31/1990',
+      legacySex: 'UNSPECIFIED'
+    });
+    expect(response.body.data.extractedData.dob).toBeUndefined();
+    expect(response.body.data.extractedData.sex).toBeUndefined();
+  });
+
+  it('link the stored portrait through a signed URL', async () => {
+    const portraitImage = 'id-1-sample-processed-portrait.jpg';
+    fs.mkdirSync(path.join(imageDir, 'portraits'));
+    fs.copyFileSync(SAMPLE_IMAGE, path.join(imageDir, 'portraits', portraitImage));
+    const record = new IDData({ lastName: 'SAMPLE', firstName: 'JANE', portraitImage });
+    vi.spyOn(IDData, 'findById').mockResolvedValue(record);
+
+    const response = await request(app).get(`/api/id/${record._id}`);
+
+    const { portraitUrl } = response.body.data.metadata;
+    expect(portraitUrl).toMatch(/^\/api\/id\/portraits\/id-1-sample-processed-portrait\.jpg\?expires=/);
+    const portrait = await request(app).get(portraitUrl);
+    expect(portrait.status).toBe(200);
+    expect(portrait.headers['content-type']).toBe('image/jpeg');
+  });
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDData } from '../src/models/IDData.js';
+import { UploadCleanupService } from '../src/services/uploadCleanupService.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let processedDir: string;
+let portraitDir: string;
+
+// Write an image file last modified `ageHours` ago
+const writeImage = (fileName: string, ageHours: number, dir: string = processedDir) => {
+  const imagePath = path.join(dir, fileName);
+  fs.writeFileSync(imagePath, 'jpeg');
+  const modified = new Date(Date.now() - ageHours * HOUR_MS);
+  fs.utimesSync(imagePath, modified, modified);
+};
+
+beforeEach(() => {
+  processedDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-test-'));
+  portraitDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-test-portraits-'));
+  vi.stubEnv('PROCESSED_IMAGE_DIR', processedDir);
+  vi.stubEnv('PORTRAIT_DIR', portraitDir);
+  vi.stubEnv('UNSAVED_UPLOAD_RETENTION_HOURS', '24');
+});
+
+afterEach(() => {
+  fs.rmSync(processedDir, { recursive: true, force: true });
+  fs.rmSync(portraitDir, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('UploadCleanupService', () => {
+  it('deletes old images no saved record points to', async () => {
+    writeImage('id-1-abandoned-processed.jpg', 48);
+    writeImage('id-2-saved-processed.jpg', 48);
+    writeImage('id-3-saved-back-processed.jpg', 48);
+    writeImage('id-4-in-review-processed.jpg', 1);
+    writeImage('notes.txt', 48);
+    const distinct = vi.spyOn(IDData, 'distinct').mockImplementation(((field: string) => Promise.resolve(
+      field === 'processedImage' ? ['id-2-saved-processed.jpg'] : ['id-3-saved-back-processed.jpg']
+    )) as any);
+
+    const removedCount = await UploadCleanupService.removeUnsaved();
+
+    expect(removedCount).toBe(1);
+    expect(fs.readdirSync(processedDir).sort()).toEqual([
+      'id-2-saved-processed.jpg',
+      'id-3-saved-back-processed.jpg',
+      'id-4-in-review-processed.jpg',
+      'notes.txt'
+    ]);
+    // Only old images are looked up
+    const [field, filter] = distinct.mock.calls[0] as [string, { processedImage: { $in: string[] } }];
+    expect(field).toBe('processedImage');
+    expect(filter.processedImage.$in.sort()).toEqual([
+      'id-1-abandoned-processed.jpg',
+      'id-2-saved-processed.jpg',
+      'id-3-saved-back-processed.jpg'
+    ]);
+  });
+
+  it('skips the database when nothing is old enough', async () => {
+    writeImage('id-4-in-review-processed.jpg', 1);
+    const distinct = vi.spyOn(IDData, 'distinct');
+
+    expect(await UploadCleanupService.removeUnsaved()).toBe(0);
+    expect(distinct).not.toHaveBeenCalled();
+  });
+
+  it('deletes old portraits no saved record points to', async () => {
+    writeImage('id-1-abandoned-processed-portrait.jpg', 48, portraitDir);
+    writeImage('id-2-saved-processed-portrait.jpg', 48, portraitDir);
+    writeImage('id-3-in-review-processed-portrait.jpg', 1, portraitDir);
+    const distinct = vi.spyOn(IDData, 'distinct').mockImplementation(((field: string) => Promise.resolve(
+      field === 'portraitImage' ? ['id-2-saved-processed-portrait.jpg'] : []
+    )) as any);
+
+    expect(await UploadCleanupService.removeUnsaved()).toBe(1);
+    expect(fs.readdirSync(portraitDir).sort()).toEqual([
+      'id-2-saved-processed-portrait.jpg',
+      'id-3-in-review-processed-portrait.jpg'
+    ]);
+    expect(distinct).toHaveBeenCalledTimes(1);
+    expect(distinct.mock.calls[0][0]).toBe('portraitImage');
+  });
+});
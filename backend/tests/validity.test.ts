@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { computeValidityStatus } from '../src/shared/validity.js';
+
+const NOW = new Date('2026-06-15T12:00:00Z');
+
+describe('computeValidityStatus', () => {
+  it.each([
+    [{ expirationDate: '2030-01-01' }, 'valid'],
+    [{ expirationDate: '2026-07-15' }, 'expiring_soon'],
+    // Valid through the end of the expiration date
+    [{ expirationDate: '2026-06-15' }, 'expiring_soon'],
+    [{ expirationDate: '2026-06-14' }, 'expired'],
+    [{ issueDate: '2026-06-16', expirationDate: '2030-01-01' }, 'not_yet_valid'],
+    [{ issueDate: '2020-01-01' }, 'unknown'],
+    [{ expirationDate: '06/14/2026' }, 'unknown']
+  ])('%o is %s', (dates, status) => {
+    expect(computeValidityStatus(dates, 30, NOW)).toBe(status);
+  });
+
+  it('uses the given warning window', () => {
+    expect(computeValidityStatus({ expirationDate: '2026-07-15' }, 7, NOW)).toBe('valid');
+  });
+});
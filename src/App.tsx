@@ -1,27 +1,64 @@
 import { useState } from 'react';
-import { UploadPanel } from './components/features/id-scanner/UploadPanel';
-import { DataForm } from './components/features/id-scanner/DataForm';
+import { UploadPanel, type UploadDetails } from './components/features/id-scanner/UploadPanel';
+import { DataForm, type DocumentType, type NativeScriptText, type ValidityStatus } from './components/features/id-scanner/DataForm';
+import { SavedRecords, type SavedRecord } from './components/features/id-scanner/SavedRecords';
 import { toast } from 'sonner';
 
 interface ExtractedData {
   id?: string;
   lastName?: string;
   firstName?: string;
+  middleName?: string;
   middleInitial?: string;
+  suffix?: string;
+  preferredName?: string;
   addressStreet?: string;
   addressCity?: string;
   addressState?: string;
   addressZip?: string;
+  addressCountry?: string;
   sex?: string;
   dob?: string;
+  // Stored sex value a data migration didn't recognize, on saved records
+  legacySex?: string;
+  issueDate?: string;
+  expirationDate?: string;
+  // Stored dates a data migration couldn't read, on saved records
+  legacyDob?: string;
+  legacyIssueDate?: string;
+  legacyExpirationDate?: string;
+  documentClass?: string;
+  endorsements?: string;
+  restrictions?: string;
+  height?: string;
+  weight?: string;
+  eyeColor?: string;
+  hairColor?: string;
+  organDonor?: boolean;
+  validityStatus?: ValidityStatus;
   confidence?: number;
+  fieldConfidence?: Record<string, number>;
+  fieldRegions?: Record<string, { x: number; y: number; width: number; height: number }>;
+  fieldSources?: Record<string, 'ocr' | 'barcode' | 'mrz'>;
+  mrzValid?: boolean;
+  mrzFailedChecks?: string[];
+  documentType?: DocumentType;
+  issuingJurisdiction?: string;
+  nativeScript?: NativeScriptText;
+  promptVersion?: string;
+  ocrModel?: string;
 }
 
 function App() {
   const [extractedData, setExtractedData] = useState<ExtractedData | null>(null);
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [uploadDetails, setUploadDetails] = useState<UploadDetails>({ discrepancies: [] });
+  // Bumped after each save so the saved records list reloads
+  const [savedCount, setSavedCount] = useState(0);
 
-  const handleUploadComplete = (data: ExtractedData) => {
+  const handleUploadComplete = (data: ExtractedData, details: UploadDetails) => {
     setExtractedData(data);
+    setUploadDetails(details);
     toast.success('Text extraction completed successfully!');
   };
 
@@ -29,8 +66,13 @@ function App() {
     toast.error(error);
   };
 
-  const handleDataSave = (data: ExtractedData) => {
+  const handleDataSave = (data: ExtractedData, record: SavedRecord) => {
     setExtractedData(data);
+    // The upload's portrait link expires; show the one signed for the stored record
+    setUploadDetails(details => details.portrait && record.metadata.portraitUrl
+      ? { ...details, portrait: { ...details.portrait, url: record.metadata.portraitUrl } }
+      : details);
+    setSavedCount(count => count + 1);
     toast.success('Data saved successfully!');
   };
 
@@ -56,6 +98,8 @@ function App() {
                 onUploadComplete={handleUploadComplete}
                 onError={handleError}
                 isUploading={false}
+                fieldRegions={extractedData?.fieldRegions}
+                activeField={activeField}
               />
             </div>
           </div>
@@ -68,7 +112,32 @@ function App() {
                 onDataSave={handleDataSave}
                 readonly={!extractedData}
                 confidence={extractedData?.confidence}
+                fieldConfidence={extractedData?.fieldConfidence}
+                fieldSources={extractedData?.fieldSources}
+                mrzValid={extractedData?.mrzValid}
+                mrzFailedChecks={extractedData?.mrzFailedChecks}
+                discrepancies={uploadDetails.discrepancies}
+                processedImage={uploadDetails.processedImage?.fileName}
+                processedBackImage={uploadDetails.processedBackImage?.fileName}
+                portraitImage={uploadDetails.portrait?.fileName}
+                portraitUrl={uploadDetails.portrait?.url}
+                documentType={extractedData?.documentType}
+                issuingJurisdiction={extractedData?.issuingJurisdiction}
+                nativeScript={extractedData?.nativeScript}
+                legacyValues={{
+                  sex: extractedData?.legacySex,
+                  dob: extractedData?.legacyDob,
+                  issueDate: extractedData?.legacyIssueDate,
+                  expirationDate: extractedData?.legacyExpirationDate
+                }}
+                promptVersion={extractedData?.promptVersion}
+                ocrModel={extractedData?.ocrModel}
+                onFieldFocus={setActiveField}
               />
+
+              <div className="mt-6 w-full flex justify-center">
+                <SavedRecords refreshKey={savedCount} />
+              </div>
             </div>
           </div>
         </div>
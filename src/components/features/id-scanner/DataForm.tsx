@@ -1,56 +1,184 @@
 import React, { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, type Path } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Edit, Save, X } from 'lucide-react';
+import { AlertTriangle, Ban, Barcode, Clock, Edit, Save, ScanLine, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import {
+  ADDRESS_REGIONS,
+  isValidPostalCode,
+  normalizePostalCode,
+  POSTAL_CODE_COUNTRIES,
+  POSTAL_CODE_FORMATS,
+  postalCodeErrorMessage
+} from '@shared/postalCodes';
+import { validateDates } from '@shared/dates';
+import { computeValidityStatus } from '@shared/validity';
+import { normalizeSex, SEX_CODES, SEX_LABELS, type SexCode } from '@shared/sex';
+import type { SavedRecord } from './SavedRecords';
 
-// Form validation schema
-const idDataSchema = z.object({
+// Form fields
+const idDataFields = z.object({
   id: z.string().optional(),
   lastName: z.string().min(1, 'Last name is required'),
   firstName: z.string().min(1, 'First name is required'),
+  middleName: z.string().max(100).optional(),
   middleInitial: z.string().max(1).optional(),
+  suffix: z.string().max(10).optional(),
+  preferredName: z.string().max(100).optional(),
   addressStreet: z.string().optional(),
   addressCity: z.string().optional(),
   addressState: z.string().optional(),
   addressZip: z.string().optional(),
-  sex: z.enum(['M', 'F', 'Male', 'Female']).optional(),
-  dob: z.string().optional()
+  addressCountry: z.string().optional(),
+  sex: z.enum(SEX_CODES).optional(),
+  dob: z.string().optional(),
+  issueDate: z.string().optional(),
+  expirationDate: z.string().optional(),
+  documentClass: z.string().max(10).optional(),
+  endorsements: z.string().max(50).optional(),
+  restrictions: z.string().max(50).optional(),
+  height: z.string().max(20).optional(),
+  weight: z.string().max(20).optional(),
+  eyeColor: z.string().max(20).optional(),
+  hairColor: z.string().max(20).optional(),
+  organDonor: z.boolean().optional()
+});
+
+// Form validation schema; postal codes and dates follow the same rules as the backend
+const idDataSchema = idDataFields.refine(data => !data.addressZip || isValidPostalCode(data.addressZip, data.addressCountry), data => ({
+  message: postalCodeErrorMessage(data.addressCountry),
+  path: ['addressZip']
+})).superRefine((data, ctx) => {
+  validateDates(data).forEach(issue => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.field], message: issue.message }));
 });
 
 type FormData = z.infer<typeof idDataSchema>;
 
+type FieldConfidence = Partial<Record<keyof FormData, number>>;
+
+type FieldSources = Partial<Record<keyof FormData, 'ocr' | 'barcode' | 'mrz'>>;
+
+export type DocumentType =
+  | 'drivers_license'
+  | 'state_id'
+  | 'passport'
+  | 'passport_card'
+  | 'permanent_resident_card'
+  | 'military_id'
+  | 'unknown';
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  drivers_license: "Driver's License",
+  state_id: 'State ID',
+  passport: 'Passport',
+  passport_card: 'Passport Card',
+  permanent_resident_card: 'Permanent Resident Card',
+  military_id: 'Military ID',
+  unknown: 'Unrecognized Document'
+};
+
+export type ValidityStatus = 'valid' | 'expiring_soon' | 'expired' | 'not_yet_valid' | 'unknown';
+
+// A field whose printed value disagrees with the barcode or MRZ
+export interface Discrepancy {
+  field: Path<FormData>;
+  source: 'barcode' | 'mrz';
+  printedValue: string;
+  machineValue: string;
+  message: string;
+  resolution?: 'printed' | 'machine';
+}
+
+// Name and address fields as printed in a non-Latin script; the form fields hold their Latin rendering
+export type NativeScriptField = 'lastName' | 'firstName' | 'middleName' | 'addressStreet' | 'addressCity' | 'addressState';
+
+export type NativeScriptText = Partial<Record<NativeScriptField, string>> & {
+  // ISO 15924 code, e.g. "Cyrl"
+  script?: string;
+};
+
+// Stored values a data migration couldn't convert, by the field they were stored in
+export type LegacyValues = Partial<Record<'sex' | 'dob' | 'issueDate' | 'expirationDate', string>>;
+
 interface DataFormProps {
   initialData?: FormData;
-  onDataSave?: (data: FormData) => void;
+  // Called with the stored record, whose signed portrait link replaces the upload's
+  onDataSave?: (data: FormData, record: SavedRecord) => void;
   readonly?: boolean;
   confidence?: number;
+  fieldConfidence?: FieldConfidence;
+  fieldSources?: FieldSources;
+  mrzValid?: boolean;
+  mrzFailedChecks?: string[];
+  discrepancies?: Discrepancy[];
+  documentType?: DocumentType;
+  issuingJurisdiction?: string;
+  nativeScript?: NativeScriptText;
+  legacyValues?: LegacyValues;
+  // File names of the preprocessed upload (and its back, for two-sided uploads), stored with the record
+  processedImage?: string;
+  processedBackImage?: string;
+  // Thumbnail of the holder's portrait, stored with the record, and the signed link it is shown through
+  portraitImage?: string;
+  portraitUrl?: string;
+  // Prompt templates and model that read the document, stored so accuracy can be traced to them
+  promptVersion?: string;
+  ocrModel?: string;
+  onFieldFocus?: (field: keyof FormData | null) => void;
 }
 
-const STATE_OPTIONS = [
-  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA',
-  'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD',
-  'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ',
-  'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC',
-  'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
-];
+// Fields scored below this are highlighted for review
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Badges for values read from machine-readable data rather than printed text
+const SOURCE_BADGES = {
+  barcode: { label: 'Barcode', title: 'Read from the barcode on the back of the ID', Icon: Barcode },
+  mrz: { label: 'MRZ', title: 'Read from the machine-readable zone', Icon: ScanLine }
+};
+
+// Countries with a known postal code format, plus the record's own country if it isn't one of them
+const LISTED_COUNTRIES = [...POSTAL_CODE_COUNTRIES].sort((a, b) =>
+  POSTAL_CODE_FORMATS[a].name.localeCompare(POSTAL_CODE_FORMATS[b].name));
+
+// First letter of the middle name, as the backend stores it
+const middleInitialOf = (middleName: string) => /^[A-Za-z]/.test(middleName.trim()) ? middleName.trim().charAt(0).toUpperCase() : '';
 
 export const DataForm: React.FC<DataFormProps> = ({
   initialData,
   onDataSave,
   readonly: initialReadonly = true,
-  confidence
+  confidence,
+  fieldConfidence,
+  fieldSources,
+  mrzValid,
+  mrzFailedChecks,
+  discrepancies,
+  documentType,
+  issuingJurisdiction,
+  nativeScript,
+  legacyValues,
+  processedImage,
+  processedBackImage,
+  portraitImage,
+  portraitUrl,
+  promptVersion,
+  ocrModel,
+  onFieldFocus
 }) => {
   const [isReadonly, setIsReadonly] = useState(initialReadonly);
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  // Which value the reviewer kept for each mismatched field
+  const [resolutions, setResolutions] = useState<Partial<Record<keyof FormData, 'printed' | 'machine'>>>({});
 
   const {
     register,
@@ -58,7 +186,8 @@ export const DataForm: React.FC<DataFormProps> = ({
     formState: { errors, isDirty },
     reset,
     watch,
-    setValue
+    setValue,
+    trigger
   } = useForm<FormData>({
     resolver: zodResolver(idDataSchema),
     defaultValues: initialData || {},
@@ -72,6 +201,11 @@ export const DataForm: React.FC<DataFormProps> = ({
     }
   }, [initialData, reset]);
 
+  // A new extraction starts with no discrepancies resolved
+  useEffect(() => {
+    setResolutions({});
+  }, [discrepancies]);
+
   // Track changes
   useEffect(() => {
     setHasChanges(isDirty);
@@ -83,10 +217,43 @@ export const DataForm: React.FC<DataFormProps> = ({
 
   const handleCancel = () => {
     reset(initialData || {});
+    setResolutions({});
     setIsReadonly(true);
     setHasChanges(false);
   };
 
+  // Keep the printed or the machine-readable value for a mismatched field
+  const handleResolveDiscrepancy = (discrepancy: Discrepancy, resolution: 'printed' | 'machine') => {
+    const value = resolution === 'printed' ? discrepancy.printedValue : discrepancy.machineValue;
+    const options = { shouldDirty: true, shouldValidate: true };
+    if (discrepancy.field === 'organDonor') {
+      // The organ donor flag is reported as "Yes"/"No"
+      setValue('organDonor', value === 'Yes', options);
+    } else if (discrepancy.field === 'sex') {
+      setValue('sex', normalizeSex(value), options);
+    } else {
+      setValue(discrepancy.field, value, options);
+    }
+    setResolutions(prev => ({ ...prev, [discrepancy.field]: resolution }));
+    setIsReadonly(false);
+  };
+
+  // Fields where the reviewer kept the printed value no longer come from the barcode/MRZ
+  const resolvedFieldSources = (): FieldSources | undefined => {
+    if (!fieldSources) {
+      return fieldSources;
+    }
+    const sources = { ...fieldSources };
+    discrepancies?.forEach(({ field, source }) => {
+      if (resolutions[field] === 'printed') {
+        sources[field] = 'ocr';
+      } else if (resolutions[field] === 'machine') {
+        sources[field] = source;
+      }
+    });
+    return sources;
+  };
+
   const handleSave = async (data: FormData) => {
     setIsSaving(true);
     try {
@@ -95,7 +262,26 @@ export const DataForm: React.FC<DataFormProps> = ({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data)
+        body: JSON.stringify({
+          ...data,
+          documentType,
+          issuingJurisdiction,
+          nativeScript,
+          confidence,
+          fieldConfidence,
+          fieldSources: resolvedFieldSources(),
+          mrzValid,
+          mrzFailedChecks,
+          processedImage,
+          processedBackImage,
+          portraitImage,
+          promptVersion,
+          ocrModel,
+          discrepancies: discrepancies?.map(discrepancy => ({
+            ...discrepancy,
+            resolution: resolutions[discrepancy.field]
+          }))
+        })
       });
 
       if (!response.ok) {
@@ -109,7 +295,7 @@ export const DataForm: React.FC<DataFormProps> = ({
         toast.success('ID data saved successfully!');
         setIsReadonly(true);
         setHasChanges(false);
-        onDataSave?.(data);
+        onDataSave?.(data, result.data);
       } else {
         throw new Error('Save operation failed');
       }
@@ -142,6 +328,112 @@ export const DataForm: React.FC<DataFormProps> = ({
     return 'Low confidence';
   };
 
+  const isLowConfidence = (field: keyof FormData) => {
+    const score = fieldConfidence?.[field];
+    return score !== undefined && score < LOW_CONFIDENCE_THRESHOLD;
+  };
+
+  // Countries with a region list (US states, Canadian provinces) pick from it; elsewhere the region
+  // is typed. The record's own value stays selectable if it isn't on the list.
+  const addressCountry = watch('addressCountry');
+  const isUsAddress = !addressCountry || addressCountry === 'US';
+  const postalCodeFormat = POSTAL_CODE_FORMATS[addressCountry || 'US'];
+  const countryOptions = addressCountry && !postalCodeFormat ? [...LISTED_COUNTRIES, addressCountry] : LISTED_COUNTRIES;
+  const addressState = watch('addressState');
+  const addressRegions = ADDRESS_REGIONS[addressCountry || 'US'];
+  const regionOptions = addressRegions && addressState && !addressRegions.includes(addressState)
+    ? [...addressRegions, addressState]
+    : addressRegions;
+
+  // The middle initial is derived from the middle name when there is one
+  const hasMiddleName = !!watch('middleName');
+
+  // Recomputed as the dates are corrected, rather than taken from the extraction
+  const issueDate = watch('issueDate');
+  const expirationDate = watch('expirationDate');
+  const validityStatus = computeValidityStatus({ issueDate, expirationDate });
+
+  const lowConfidenceClass = (field: keyof FormData) =>
+    isLowConfidence(field) && "border-amber-500 bg-amber-50 focus-visible:ring-amber-500";
+
+  const renderConfidenceHint = (field: keyof FormData) =>
+    isLowConfidence(field) && (
+      <p className="flex items-center gap-1 text-xs text-amber-700">
+        <AlertTriangle className="h-3 w-3" />
+        Low confidence ({Math.round((fieldConfidence?.[field] ?? 0) * 100)}%) - please verify
+      </p>
+    );
+
+  // The value as printed in a non-Latin script, under its Latin rendering
+  const renderNativeScript = (field: NativeScriptField) =>
+    nativeScript?.[field] && (
+      <p className="text-xs text-gray-500" dir="auto">
+        As printed: {nativeScript[field]}
+      </p>
+    );
+
+  // A stored value that couldn't be converted, shown as it was stored so the reviewer can re-enter it
+  const renderLegacyValue = (field: keyof LegacyValues) =>
+    legacyValues?.[field] && (
+      <p className="flex items-center gap-1 text-xs text-amber-700">
+        <AlertTriangle className="h-3 w-3" />
+        Previously stored as "{legacyValues[field]}", which could not be read - re-enter it from the document
+      </p>
+    );
+
+  const renderSourceBadge = (field: keyof FormData) => {
+    const source = fieldSources?.[field];
+    if (source !== 'barcode' && source !== 'mrz') {
+      return null;
+    }
+    const { label, title, Icon } = SOURCE_BADGES[source];
+    return (
+      <span
+        title={title}
+        className="inline-flex items-center gap-1 rounded bg-emerald-100 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-emerald-700"
+      >
+        <Icon className="h-3 w-3" />
+        {label}
+      </span>
+    );
+  };
+
+  const renderDiscrepancies = (field: keyof FormData) =>
+    discrepancies
+      ?.filter(discrepancy => discrepancy.field === field)
+      .map(discrepancy => {
+        const resolution = resolutions[field];
+        const options: { resolution: 'printed' | 'machine'; label: string; value: string }[] = [
+          { resolution: 'printed', label: 'Printed', value: discrepancy.printedValue },
+          { resolution: 'machine', label: SOURCE_BADGES[discrepancy.source].label, value: discrepancy.machineValue }
+        ];
+        return (
+          <div
+            key={discrepancy.source}
+            className="rounded-md border border-orange-200 bg-orange-50 p-2 text-xs text-orange-800 space-y-1"
+          >
+            <p className="flex items-center gap-1 font-medium">
+              <AlertTriangle className="h-3 w-3" />
+              Printed text and {discrepancy.source === 'mrz' ? 'MRZ' : 'barcode'} disagree - choose the correct value
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {options.map(option => (
+                <Button
+                  key={option.resolution}
+                  type="button"
+                  size="sm"
+                  variant={resolution === option.resolution ? 'default' : 'outline'}
+                  onClick={() => handleResolveDiscrepancy(discrepancy, option.resolution)}
+                  className="h-auto py-1 text-xs"
+                >
+                  {option.label}: {option.value}
+                </Button>
+              ))}
+            </div>
+          </div>
+        );
+      });
+
   const isFormEmpty = !watch('lastName') && !watch('firstName') && !watch('id');
 
   return (
@@ -202,6 +494,14 @@ export const DataForm: React.FC<DataFormProps> = ({
             )}
           </div>
         </div>
+        {documentType && !isFormEmpty && (
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">{DOCUMENT_TYPE_LABELS[documentType]}</Badge>
+            {issuingJurisdiction && (
+              <span className="text-sm text-muted-foreground">Issued by {issuingJurisdiction}</span>
+            )}
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         {isFormEmpty ? (
@@ -210,90 +510,242 @@ export const DataForm: React.FC<DataFormProps> = ({
             <p className="text-sm">Upload an ID photo to get started.</p>
           </div>
         ) : (
-          <form onSubmit={handleSubmit(handleSave)} className="space-y-4">
+          <form
+            onSubmit={handleSubmit(handleSave)}
+            // Input ids match the field names, so focus events identify the field to highlight
+            onFocus={(e) => onFieldFocus?.(e.target.id in idDataFields.shape ? e.target.id as keyof FormData : null)}
+            onBlur={() => onFieldFocus?.(null)}
+            className="space-y-4"
+          >
+            {/* Onboarding policy rejects expired IDs, so this must be impossible to miss */}
+            {validityStatus === 'expired' && (
+              <div role="alert" className="flex items-start gap-3 rounded-md border-2 border-red-500 bg-red-100 p-4 text-red-800">
+                <Ban className="h-6 w-6 shrink-0" />
+                <div>
+                  <p className="font-semibold">This ID has expired</p>
+                  <p className="text-sm">
+                    {expirationDate ? `Expired on ${expirationDate}. ` : ''}
+                    Expired IDs cannot be accepted for onboarding. Ask for a current document.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {validityStatus === 'not_yet_valid' && (
+              <div role="alert" className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <p>
+                  The issue date{issueDate ? ` (${issueDate})` : ''} is in the future.
+                  Check the dates against the original document.
+                </p>
+              </div>
+            )}
+
+            {validityStatus === 'expiring_soon' && (
+              <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <Clock className="h-4 w-4 mt-0.5 shrink-0" />
+                <p>
+                  This ID expires soon{expirationDate ? ` (${expirationDate})` : ''}.
+                </p>
+              </div>
+            )}
+
+            {mrzValid === false && (
+              <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <p>
+                  The machine-readable zone failed its check digits
+                  {mrzFailedChecks && mrzFailedChecks.length > 0 && ` (${mrzFailedChecks.join(', ')})`}.
+                  The document may be misread or altered - verify it against the original.
+                </p>
+              </div>
+            )}
+
             {/* ID Number */}
             <div className="space-y-2">
-              <Label htmlFor="id">ID Number</Label>
+              <Label htmlFor="id" className="flex items-center gap-2">ID Number{renderSourceBadge('id')}</Label>
               <Input
                 id="id"
                 {...register('id')}
                 readOnly={isReadonly}
                 className={cn(
-                  isReadonly && "bg-gray-50 cursor-not-allowed"
+                  isReadonly && "bg-gray-50 cursor-not-allowed",
+                  lowConfidenceClass('id')
                 )}
                 placeholder="Enter ID number"
               />
+              {renderConfidenceHint('id')}
+              {renderDiscrepancies('id')}
               {errors.id && (
                 <p className="text-sm text-red-500">{errors.id.message}</p>
               )}
             </div>
 
-            {/* Name Fields */}
+            {/* Name Fields, beside the portrait to compare against */}
+            <div className="flex gap-4">
+              {portraitUrl && (
+                <div className="w-24 shrink-0 space-y-1">
+                  <img
+                    src={`http://localhost:3001${portraitUrl}`}
+                    alt="Holder's portrait"
+                    className="h-32 w-24 rounded-md border object-cover"
+                  />
+                  <p className="text-xs text-gray-500">Compare with the person presenting the document.</p>
+                </div>
+              )}
+
+              <div className="flex-1 space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="firstName" className="flex items-center gap-2">First Name *{renderSourceBadge('firstName')}</Label>
+                    <Input
+                      id="firstName"
+                      {...register('firstName')}
+                      readOnly={isReadonly}
+                      className={cn(
+                        isReadonly && "bg-gray-50 cursor-not-allowed",
+                        errors.firstName && "border-red-500",
+                        lowConfidenceClass('firstName')
+                      )}
+                      placeholder="First name"
+                    />
+                    {renderConfidenceHint('firstName')}
+                    {renderNativeScript('firstName')}
+                    {renderDiscrepancies('firstName')}
+                    {errors.firstName && (
+                      <p className="text-sm text-red-500">{errors.firstName.message}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="lastName" className="flex items-center gap-2">Last Name *{renderSourceBadge('lastName')}</Label>
+                    <Input
+                      id="lastName"
+                      {...register('lastName')}
+                      readOnly={isReadonly}
+                      className={cn(
+                        isReadonly && "bg-gray-50 cursor-not-allowed",
+                        errors.lastName && "border-red-500",
+                        lowConfidenceClass('lastName')
+                      )}
+                      placeholder="Last name"
+                    />
+                    {renderConfidenceHint('lastName')}
+                    {renderNativeScript('lastName')}
+                    {renderDiscrepancies('lastName')}
+                    {errors.lastName && (
+                      <p className="text-sm text-red-500">{errors.lastName.message}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="middleName" className="flex items-center gap-2">Middle Name{renderSourceBadge('middleName')}</Label>
+                    <Input
+                      id="middleName"
+                      {...register('middleName', {
+                        // The middle initial is kept for older records and follows the middle name
+                        onChange: (event) => setValue('middleInitial', middleInitialOf(event.target.value))
+                      })}
+                      readOnly={isReadonly}
+                      className={cn(
+                        isReadonly && "bg-gray-50 cursor-not-allowed",
+                        errors.middleName && "border-red-500",
+                        lowConfidenceClass('middleName')
+                      )}
+                      placeholder="Middle name(s)"
+                    />
+                    {renderConfidenceHint('middleName')}
+                    {renderNativeScript('middleName')}
+                    {renderDiscrepancies('middleName')}
+                    {errors.middleName && (
+                      <p className="text-sm text-red-500">{errors.middleName.message}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="suffix" className="flex items-center gap-2">Suffix{renderSourceBadge('suffix')}</Label>
+                    <Input
+                      id="suffix"
+                      {...register('suffix')}
+                      readOnly={isReadonly}
+                      className={cn(
+                        isReadonly && "bg-gray-50 cursor-not-allowed",
+                        errors.suffix && "border-red-500",
+                        lowConfidenceClass('suffix')
+                      )}
+                      placeholder="JR, SR, III"
+                      maxLength={10}
+                    />
+                    {renderConfidenceHint('suffix')}
+                    {renderDiscrepancies('suffix')}
+                    {errors.suffix && (
+                      <p className="text-sm text-red-500">{errors.suffix.message}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+
             <div className="grid grid-cols-2 gap-3">
               <div className="space-y-2">
-                <Label htmlFor="firstName">First Name *</Label>
+                <Label htmlFor="preferredName" className="flex items-center gap-2">Preferred Name{renderSourceBadge('preferredName')}</Label>
                 <Input
-                  id="firstName"
-                  {...register('firstName')}
+                  id="preferredName"
+                  {...register('preferredName')}
                   readOnly={isReadonly}
                   className={cn(
                     isReadonly && "bg-gray-50 cursor-not-allowed",
-                    errors.firstName && "border-red-500"
+                    errors.preferredName && "border-red-500",
+                    lowConfidenceClass('preferredName')
                   )}
-                  placeholder="First name"
+                  placeholder="Nickname"
                 />
-                {errors.firstName && (
-                  <p className="text-sm text-red-500">{errors.firstName.message}</p>
+                {renderConfidenceHint('preferredName')}
+                {renderDiscrepancies('preferredName')}
+                {errors.preferredName && (
+                  <p className="text-sm text-red-500">{errors.preferredName.message}</p>
                 )}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="lastName">Last Name *</Label>
+                <Label htmlFor="middleInitial" className="flex items-center gap-2">Middle Initial{renderSourceBadge('middleInitial')}</Label>
                 <Input
-                  id="lastName"
-                  {...register('lastName')}
-                  readOnly={isReadonly}
+                  id="middleInitial"
+                  {...register('middleInitial')}
+                  readOnly={isReadonly || hasMiddleName}
                   className={cn(
-                    isReadonly && "bg-gray-50 cursor-not-allowed",
-                    errors.lastName && "border-red-500"
+                    (isReadonly || hasMiddleName) && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('middleInitial')
                   )}
-                  placeholder="Last name"
+                  placeholder="MI"
+                  maxLength={1}
                 />
-                {errors.lastName && (
-                  <p className="text-sm text-red-500">{errors.lastName.message}</p>
+                {renderConfidenceHint('middleInitial')}
+                {renderDiscrepancies('middleInitial')}
+                {errors.middleInitial && (
+                  <p className="text-sm text-red-500">{errors.middleInitial.message}</p>
                 )}
               </div>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="middleInitial">Middle Initial</Label>
-              <Input
-                id="middleInitial"
-                {...register('middleInitial')}
-                readOnly={isReadonly}
-                className={cn(
-                  isReadonly && "bg-gray-50 cursor-not-allowed"
-                )}
-                placeholder="MI"
-                maxLength={1}
-              />
-              {errors.middleInitial && (
-                <p className="text-sm text-red-500">{errors.middleInitial.message}</p>
-              )}
-            </div>
-
             {/* Address Fields */}
             <div className="space-y-2">
-              <Label htmlFor="addressStreet">Street Address</Label>
+              <Label htmlFor="addressStreet" className="flex items-center gap-2">Street Address{renderSourceBadge('addressStreet')}</Label>
               <Input
                 id="addressStreet"
                 {...register('addressStreet')}
                 readOnly={isReadonly}
                 className={cn(
-                  isReadonly && "bg-gray-50 cursor-not-allowed"
+                  isReadonly && "bg-gray-50 cursor-not-allowed",
+                  lowConfidenceClass('addressStreet')
                 )}
                 placeholder="123 Main St"
               />
+              {renderConfidenceHint('addressStreet')}
+              {renderNativeScript('addressStreet')}
+              {renderDiscrepancies('addressStreet')}
               {errors.addressStreet && (
                 <p className="text-sm text-red-500">{errors.addressStreet.message}</p>
               )}
@@ -301,33 +753,37 @@ export const DataForm: React.FC<DataFormProps> = ({
 
             <div className="grid grid-cols-3 gap-3">
               <div className="space-y-2">
-                <Label htmlFor="addressCity">City</Label>
+                <Label htmlFor="addressCity" className="flex items-center gap-2">City{renderSourceBadge('addressCity')}</Label>
                 <Input
                   id="addressCity"
                   {...register('addressCity')}
                   readOnly={isReadonly}
                   className={cn(
-                    isReadonly && "bg-gray-50 cursor-not-allowed"
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('addressCity')
                   )}
                   placeholder="City"
                 />
+                {renderConfidenceHint('addressCity')}
+                {renderNativeScript('addressCity')}
+                {renderDiscrepancies('addressCity')}
                 {errors.addressCity && (
                   <p className="text-sm text-red-500">{errors.addressCity.message}</p>
                 )}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="addressState">State</Label>
-                {!isReadonly ? (
+                <Label htmlFor="addressState" className="flex items-center gap-2">{isUsAddress ? 'State' : 'State/Province'}{renderSourceBadge('addressState')}</Label>
+                {!isReadonly && regionOptions ? (
                   <Select
-                    value={watch('addressState') || ''}
+                    value={addressState || ''}
                     onValueChange={(value) => setValue('addressState', value)}
                   >
-                    <SelectTrigger>
-                      <SelectValue placeholder="State" />
+                    <SelectTrigger id="addressState" className={cn(lowConfidenceClass('addressState'))}>
+                      <SelectValue placeholder={isUsAddress ? 'State' : 'Province'} />
                     </SelectTrigger>
                     <SelectContent>
-                      {STATE_OPTIONS.map((state) => (
+                      {regionOptions.map((state) => (
                         <SelectItem key={state} value={state}>
                           {state}
                         </SelectItem>
@@ -339,47 +795,96 @@ export const DataForm: React.FC<DataFormProps> = ({
                     id="addressState"
                     {...register('addressState')}
                     readOnly={isReadonly}
-                    className="bg-gray-50 cursor-not-allowed"
-                    placeholder="State"
+                    className={cn(isReadonly && "bg-gray-50 cursor-not-allowed", lowConfidenceClass('addressState'))}
+                    placeholder={isUsAddress ? 'State' : 'Province'}
                   />
                 )}
+                {renderConfidenceHint('addressState')}
+                {renderNativeScript('addressState')}
+                {renderDiscrepancies('addressState')}
                 {errors.addressState && (
                   <p className="text-sm text-red-500">{errors.addressState.message}</p>
                 )}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="addressZip">ZIP Code</Label>
+                <Label htmlFor="addressZip" className="flex items-center gap-2">{isUsAddress ? 'ZIP Code' : 'Postal Code'}{renderSourceBadge('addressZip')}</Label>
                 <Input
                   id="addressZip"
-                  {...register('addressZip')}
+                  {...register('addressZip', {
+                    // Reformat to the country's printed form, e.g. "k1a0b1" -> "K1A 0B1"
+                    onBlur: (event) => event.target.value && setValue(
+                      'addressZip',
+                      normalizePostalCode(event.target.value, addressCountry),
+                      { shouldDirty: true, shouldValidate: true }
+                    )
+                  })}
                   readOnly={isReadonly}
                   className={cn(
-                    isReadonly && "bg-gray-50 cursor-not-allowed"
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('addressZip')
                   )}
-                  placeholder="12345"
+                  placeholder={postalCodeFormat?.example || 'Postal code'}
                 />
+                {renderConfidenceHint('addressZip')}
+                {renderDiscrepancies('addressZip')}
                 {errors.addressZip && (
                   <p className="text-sm text-red-500">{errors.addressZip.message}</p>
                 )}
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="addressCountry" className="flex items-center gap-2">Country{renderSourceBadge('addressCountry')}</Label>
+              {!isReadonly ? (
+                <Select
+                  value={addressCountry || ''}
+                  onValueChange={(value) => {
+                    setValue('addressCountry', value, { shouldDirty: true });
+                    // The postal code is checked against the new country's format
+                    trigger('addressZip');
+                  }}
+                >
+                  <SelectTrigger id="addressCountry" className={cn(lowConfidenceClass('addressCountry'))}>
+                    <SelectValue placeholder="Country" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {countryOptions.map((country) => (
+                      <SelectItem key={country} value={country}>
+                        {POSTAL_CODE_FORMATS[country]?.name || country}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id="addressCountry"
+                  value={postalCodeFormat?.name || addressCountry || ''}
+                  readOnly
+                  className={cn("bg-gray-50 cursor-not-allowed", lowConfidenceClass('addressCountry'))}
+                  placeholder="Country"
+                />
+              )}
+              {renderConfidenceHint('addressCountry')}
+              {renderDiscrepancies('addressCountry')}
+            </div>
+
             {/* Additional Information */}
             <div className="grid grid-cols-2 gap-3">
               <div className="space-y-2">
-                <Label htmlFor="sex">Sex</Label>
+                <Label htmlFor="sex" className="flex items-center gap-2">Sex{renderSourceBadge('sex')}</Label>
                 {!isReadonly ? (
                   <Select
                     value={watch('sex') || ''}
-                    onValueChange={(value) => setValue('sex', value as 'M' | 'F' | 'Male' | 'Female')}
+                    onValueChange={(value) => setValue('sex', value as SexCode)}
                   >
-                    <SelectTrigger>
+                    <SelectTrigger id="sex" className={cn(lowConfidenceClass('sex'))}>
                       <SelectValue placeholder="Select" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="M">Male</SelectItem>
-                      <SelectItem value="F">Female</SelectItem>
+                      {SEX_CODES.map(code => (
+                        <SelectItem key={code} value={code}>{SEX_LABELS[code]}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 ) : (
@@ -387,32 +892,235 @@ export const DataForm: React.FC<DataFormProps> = ({
                     id="sex"
                     {...register('sex')}
                     readOnly={isReadonly}
-                    className="bg-gray-50 cursor-not-allowed"
+                    className={cn("bg-gray-50 cursor-not-allowed", lowConfidenceClass('sex'))}
                     placeholder="Sex"
                   />
                 )}
+                {renderConfidenceHint('sex')}
+                {renderLegacyValue('sex')}
+                {renderDiscrepancies('sex')}
                 {errors.sex && (
                   <p className="text-sm text-red-500">{errors.sex.message}</p>
                 )}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="dob">Date of Birth</Label>
+                <Label htmlFor="dob" className="flex items-center gap-2">Date of Birth{renderSourceBadge('dob')}</Label>
                 <Input
                   id="dob"
                   {...register('dob')}
                   type="date"
                   readOnly={isReadonly}
                   className={cn(
-                    isReadonly && "bg-gray-50 cursor-not-allowed"
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('dob')
                   )}
                 />
+                {renderConfidenceHint('dob')}
+                {renderLegacyValue('dob')}
+                {renderDiscrepancies('dob')}
                 {errors.dob && (
                   <p className="text-sm text-red-500">{errors.dob.message}</p>
                 )}
               </div>
             </div>
 
+            {/* License Information */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="issueDate" className="flex items-center gap-2">Issue Date{renderSourceBadge('issueDate')}</Label>
+                <Input
+                  id="issueDate"
+                  {...register('issueDate')}
+                  type="date"
+                  readOnly={isReadonly}
+                  className={cn(
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('issueDate')
+                  )}
+                />
+                {renderConfidenceHint('issueDate')}
+                {renderLegacyValue('issueDate')}
+                {renderDiscrepancies('issueDate')}
+                {errors.issueDate && (
+                  <p className="text-sm text-red-500">{errors.issueDate.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="expirationDate" className="flex items-center gap-2">Expiration Date{renderSourceBadge('expirationDate')}</Label>
+                <Input
+                  id="expirationDate"
+                  {...register('expirationDate')}
+                  type="date"
+                  readOnly={isReadonly}
+                  className={cn(
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('expirationDate')
+                  )}
+                />
+                {renderConfidenceHint('expirationDate')}
+                {renderLegacyValue('expirationDate')}
+                {renderDiscrepancies('expirationDate')}
+                {errors.expirationDate && (
+                  <p className="text-sm text-red-500">{errors.expirationDate.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="documentClass" className="flex items-center gap-2">Class{renderSourceBadge('documentClass')}</Label>
+                <Input
+                  id="documentClass"
+                  {...register('documentClass')}
+                  readOnly={isReadonly}
+                  className={cn(
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('documentClass')
+                  )}
+                  placeholder="C"
+                />
+                {renderConfidenceHint('documentClass')}
+                {renderDiscrepancies('documentClass')}
+                {errors.documentClass && (
+                  <p className="text-sm text-red-500">{errors.documentClass.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="endorsements" className="flex items-center gap-2">Endorsements{renderSourceBadge('endorsements')}</Label>
+                <Input
+                  id="endorsements"
+                  {...register('endorsements')}
+                  readOnly={isReadonly}
+                  className={cn(
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('endorsements')
+                  )}
+                  placeholder="NONE"
+                />
+                {renderConfidenceHint('endorsements')}
+                {renderDiscrepancies('endorsements')}
+                {errors.endorsements && (
+                  <p className="text-sm text-red-500">{errors.endorsements.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="restrictions" className="flex items-center gap-2">Restrictions{renderSourceBadge('restrictions')}</Label>
+                <Input
+                  id="restrictions"
+                  {...register('restrictions')}
+                  readOnly={isReadonly}
+                  className={cn(
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('restrictions')
+                  )}
+                  placeholder="NONE"
+                />
+                {renderConfidenceHint('restrictions')}
+                {renderDiscrepancies('restrictions')}
+                {errors.restrictions && (
+                  <p className="text-sm text-red-500">{errors.restrictions.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="height" className="flex items-center gap-2">Height{renderSourceBadge('height')}</Label>
+                <Input
+                  id="height"
+                  {...register('height')}
+                  readOnly={isReadonly}
+                  className={cn(
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('height')
+                  )}
+                  placeholder={`5'-08"`}
+                />
+                {renderConfidenceHint('height')}
+                {renderDiscrepancies('height')}
+                {errors.height && (
+                  <p className="text-sm text-red-500">{errors.height.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="weight" className="flex items-center gap-2">Weight{renderSourceBadge('weight')}</Label>
+                <Input
+                  id="weight"
+                  {...register('weight')}
+                  readOnly={isReadonly}
+                  className={cn(
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('weight')
+                  )}
+                  placeholder="150 lb"
+                />
+                {renderConfidenceHint('weight')}
+                {renderDiscrepancies('weight')}
+                {errors.weight && (
+                  <p className="text-sm text-red-500">{errors.weight.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="eyeColor" className="flex items-center gap-2">Eye Color{renderSourceBadge('eyeColor')}</Label>
+                <Input
+                  id="eyeColor"
+                  {...register('eyeColor')}
+                  readOnly={isReadonly}
+                  className={cn(
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('eyeColor')
+                  )}
+                  placeholder="BRO"
+                />
+                {renderConfidenceHint('eyeColor')}
+                {renderDiscrepancies('eyeColor')}
+                {errors.eyeColor && (
+                  <p className="text-sm text-red-500">{errors.eyeColor.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="hairColor" className="flex items-center gap-2">Hair Color{renderSourceBadge('hairColor')}</Label>
+                <Input
+                  id="hairColor"
+                  {...register('hairColor')}
+                  readOnly={isReadonly}
+                  className={cn(
+                    isReadonly && "bg-gray-50 cursor-not-allowed",
+                    lowConfidenceClass('hairColor')
+                  )}
+                  placeholder="BRO"
+                />
+                {renderConfidenceHint('hairColor')}
+                {renderDiscrepancies('hairColor')}
+                {errors.hairColor && (
+                  <p className="text-sm text-red-500">{errors.hairColor.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="organDonor"
+                  checked={watch('organDonor') === true}
+                  onCheckedChange={(checked) => setValue('organDonor', checked === true, { shouldDirty: true })}
+                  disabled={isReadonly}
+                />
+                <Label htmlFor="organDonor" className="flex items-center gap-2">Organ Donor{renderSourceBadge('organDonor')}</Label>
+              </div>
+              {renderConfidenceHint('organDonor')}
+              {renderDiscrepancies('organDonor')}
+            </div>
+
             {/* Hidden submit button for form submission */}
             <button type="submit" className="hidden" />
           </form>
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from '@/components/ui/toaster';
-import { UploadPanel } from './UploadPanel';
-import { DataForm } from './DataForm';
+import { UploadPanel, type UploadDetails } from './UploadPanel';
+import { DataForm, type DocumentType, type NativeScriptText, type ValidityStatus } from './DataForm';
+import { SavedRecords, type SavedRecord } from './SavedRecords';
 import { toast } from 'sonner';
 
 // Create a client for React Query
@@ -19,21 +20,57 @@ interface ExtractedData {
   id?: string;
   lastName?: string;
   firstName?: string;
+  middleName?: string;
   middleInitial?: string;
+  suffix?: string;
+  preferredName?: string;
   addressStreet?: string;
   addressCity?: string;
   addressState?: string;
   addressZip?: string;
+  addressCountry?: string;
   sex?: string;
   dob?: string;
+  // Stored sex value a data migration didn't recognize, on saved records
+  legacySex?: string;
+  issueDate?: string;
+  expirationDate?: string;
+  // Stored dates a data migration couldn't read, on saved records
+  legacyDob?: string;
+  legacyIssueDate?: string;
+  legacyExpirationDate?: string;
+  documentClass?: string;
+  endorsements?: string;
+  restrictions?: string;
+  height?: string;
+  weight?: string;
+  eyeColor?: string;
+  hairColor?: string;
+  organDonor?: boolean;
+  validityStatus?: ValidityStatus;
   confidence?: number;
+  fieldConfidence?: Record<string, number>;
+  fieldRegions?: Record<string, { x: number; y: number; width: number; height: number }>;
+  fieldSources?: Record<string, 'ocr' | 'barcode' | 'mrz'>;
+  mrzValid?: boolean;
+  mrzFailedChecks?: string[];
+  documentType?: DocumentType;
+  issuingJurisdiction?: string;
+  nativeScript?: NativeScriptText;
+  promptVersion?: string;
+  ocrModel?: string;
 }
 
 const IDScannerPageContent: React.FC = () => {
   const [extractedData, setExtractedData] = useState<ExtractedData | null>(null);
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [uploadDetails, setUploadDetails] = useState<UploadDetails>({ discrepancies: [] });
+  // Bumped after each save so the saved records list reloads
+  const [savedCount, setSavedCount] = useState(0);
 
-  const handleUploadComplete = (data: ExtractedData) => {
+  const handleUploadComplete = (data: ExtractedData, details: UploadDetails) => {
     setExtractedData(data);
+    setUploadDetails(details);
     toast.success('Text extraction completed successfully!');
   };
 
@@ -41,9 +78,14 @@ const IDScannerPageContent: React.FC = () => {
     toast.error(error);
   };
 
-  const handleDataSave = (data: ExtractedData) => {
+  const handleDataSave = (data: ExtractedData, record: SavedRecord) => {
     // Update local state with saved data
     setExtractedData(data);
+    // The upload's portrait link expires; show the one signed for the stored record
+    setUploadDetails(details => details.portrait && record.metadata.portraitUrl
+      ? { ...details, portrait: { ...details.portrait, url: record.metadata.portraitUrl } }
+      : details);
+    setSavedCount(count => count + 1);
     toast.success('Data saved successfully!');
   };
 
@@ -69,6 +111,8 @@ const IDScannerPageContent: React.FC = () => {
                 onUploadComplete={handleUploadComplete}
                 onError={handleError}
                 isUploading={isLoading}
+                fieldRegions={extractedData?.fieldRegions}
+                activeField={activeField}
               />
 
               {/* Instructions */}
@@ -94,8 +138,33 @@ const IDScannerPageContent: React.FC = () => {
                 onDataSave={handleDataSave}
                 readonly={!extractedData}
                 confidence={extractedData?.confidence}
+                fieldConfidence={extractedData?.fieldConfidence}
+                fieldSources={extractedData?.fieldSources}
+                mrzValid={extractedData?.mrzValid}
+                mrzFailedChecks={extractedData?.mrzFailedChecks}
+                discrepancies={uploadDetails.discrepancies}
+                processedImage={uploadDetails.processedImage?.fileName}
+                processedBackImage={uploadDetails.processedBackImage?.fileName}
+                portraitImage={uploadDetails.portrait?.fileName}
+                portraitUrl={uploadDetails.portrait?.url}
+                documentType={extractedData?.documentType}
+                issuingJurisdiction={extractedData?.issuingJurisdiction}
+                nativeScript={extractedData?.nativeScript}
+                legacyValues={{
+                  sex: extractedData?.legacySex,
+                  dob: extractedData?.legacyDob,
+                  issueDate: extractedData?.legacyIssueDate,
+                  expirationDate: extractedData?.legacyExpirationDate
+                }}
+                promptVersion={extractedData?.promptVersion}
+                ocrModel={extractedData?.ocrModel}
+                onFieldFocus={setActiveField}
               />
 
+              <div className="mt-6 w-full flex justify-center">
+                <SavedRecords refreshKey={savedCount} />
+              </div>
+
               {/* Status Information */}
               {extractedData && (
                 <div className="mt-6 p-4 bg-green-50 rounded-lg max-w-md">
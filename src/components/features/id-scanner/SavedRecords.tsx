@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, RefreshCw, User } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { normalizeSex, SEX_LABELS } from '@shared/sex';
+import { DOCUMENT_TYPE_LABELS, type DocumentType, type ValidityStatus } from './DataForm';
+
+// A saved record as GET /api/id and POST /api/id/save return it
+export interface SavedRecord {
+  id: string;
+  extractedData: {
+    id?: string;
+    lastName?: string;
+    firstName?: string;
+    middleName?: string;
+    suffix?: string;
+    addressStreet?: string;
+    addressCity?: string;
+    addressState?: string;
+    addressZip?: string;
+    addressCountry?: string;
+    sex?: string;
+    legacySex?: string;
+    dob?: string;
+    legacyDob?: string;
+    issueDate?: string;
+    legacyIssueDate?: string;
+    expirationDate?: string;
+    legacyExpirationDate?: string;
+    validityStatus?: ValidityStatus;
+    documentType?: DocumentType;
+  };
+  metadata: {
+    // Signed link that expires; the list is fetched again for fresh ones
+    portraitImage?: string;
+    portraitUrl?: string;
+    extractedAt?: string;
+  };
+}
+
+interface SavedRecordsProps {
+  // Changed by the parent after a save so the list picks up the new record
+  refreshKey?: number;
+}
+
+const VALIDITY_LABELS: Record<ValidityStatus, string> = {
+  valid: 'Valid',
+  expiring_soon: 'Expiring soon',
+  expired: 'Expired',
+  not_yet_valid: 'Not yet valid',
+  unknown: 'Unknown'
+};
+
+const fullName = ({ firstName, middleName, lastName, suffix }: SavedRecord['extractedData']) =>
+  [firstName, middleName, lastName, suffix].filter(Boolean).join(' ') || 'Unnamed';
+
+const sexLabel = (sex?: string) => {
+  const code = normalizeSex(sex);
+  return code ? SEX_LABELS[code] : undefined;
+};
+
+// Portrait thumbnail, or a placeholder for records saved without one
+const Portrait: React.FC<{ url?: string; className: string }> = ({ url, className }) => (
+  url ? (
+    <img
+      src={`http://localhost:3001${url}`}
+      alt="Holder's portrait"
+      className={cn(className, "shrink-0 rounded-md border object-cover")}
+    />
+  ) : (
+    <div className={cn(className, "shrink-0 rounded-md border bg-gray-100 flex items-center justify-center")}>
+      <User className="h-6 w-6 text-gray-400" />
+    </div>
+  )
+);
+
+export const SavedRecords: React.FC<SavedRecordsProps> = ({ refreshKey }) => {
+  const [records, setRecords] = useState<SavedRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    const loadRecords = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('http://localhost:3001/api/id?limit=10');
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error?.message || 'Failed to load saved records');
+        }
+        const result = await response.json();
+        setRecords(result.data);
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'An unknown error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadRecords();
+  }, [refreshKey, reloadCount]);
+
+  const selected = records.find(record => record.id === selectedId);
+
+  // Stored values a migration couldn't convert, shown in place of the missing ones
+  const renderDetail = (label: string, value?: string, legacyValue?: string) => (
+    <div>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className="text-gray-900">
+        {value || (legacyValue ? (
+          <span className="flex items-center gap-1 text-amber-700">
+            <AlertTriangle className="h-3 w-3 shrink-0" />
+            "{legacyValue}" (unreadable)
+          </span>
+        ) : '—')}
+      </dd>
+    </div>
+  );
+
+  const renderSelected = ({ extractedData: data, metadata }: SavedRecord) => (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex gap-4">
+        <Portrait url={metadata.portraitUrl} className="h-32 w-24" />
+        <div className="space-y-1">
+          <p className="font-semibold text-gray-900">{fullName(data)}</p>
+          {data.id && <p className="text-sm text-gray-600">{data.id}</p>}
+          {data.documentType && (
+            <Badge variant="secondary">{DOCUMENT_TYPE_LABELS[data.documentType]}</Badge>
+          )}
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-3 text-sm">
+        {renderDetail('Date of Birth', data.dob, data.legacyDob)}
+        {renderDetail('Sex', sexLabel(data.sex), data.legacySex)}
+        {renderDetail('Issue Date', data.issueDate, data.legacyIssueDate)}
+        {renderDetail('Expiration Date', data.expirationDate, data.legacyExpirationDate)}
+        {renderDetail('Status', data.validityStatus && VALIDITY_LABELS[data.validityStatus])}
+        {renderDetail('Address', [data.addressStreet, data.addressCity, data.addressState, data.addressZip]
+          .filter(Boolean).join(', '))}
+      </dl>
+    </div>
+  );
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Saved Records</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setReloadCount(count => count + 1)}
+            disabled={isLoading}
+            className="flex items-center gap-1"
+          >
+            <RefreshCw className={cn("h-3 w-3", isLoading && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {!error && !isLoading && records.length === 0 && (
+          <p className="text-sm text-gray-500">No records have been saved yet.</p>
+        )}
+
+        <ul className="space-y-2">
+          {records.map(record => (
+            <li key={record.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(record.id === selectedId ? null : record.id)}
+                className={cn(
+                  "flex w-full items-center gap-3 rounded-md border p-2 text-left hover:bg-gray-50",
+                  record.id === selectedId && "border-blue-500 bg-blue-50"
+                )}
+              >
+                <Portrait url={record.metadata.portraitUrl} className="h-16 w-12" />
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-gray-900">{fullName(record.extractedData)}</p>
+                  <p className="truncate text-sm text-gray-500">
+                    {[record.extractedData.id, record.extractedData.expirationDate && `Expires ${record.extractedData.expirationDate}`]
+                      .filter(Boolean).join(' • ')}
+                  </p>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {selected && renderSelected(selected)}
+      </CardContent>
+    </Card>
+  );
+};
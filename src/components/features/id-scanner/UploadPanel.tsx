@@ -2,29 +2,92 @@ import React, { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Upload, File, X, CheckCircle, AlertCircle } from 'lucide-react';
+import { Upload, File, X, CheckCircle, AlertCircle, Camera } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { Discrepancy } from './DataForm';
+
+// Straightened, cropped copy of the upload that OCR ran on; field regions refer to this image
+export interface ProcessedImage {
+  fileName: string;
+  url: string;
+  width: number;
+  height: number;
+  deskewAngle: number;
+  cropped: boolean;
+}
+
+// Portrait cropped from the front image; url is a signed link that expires
+interface Portrait {
+  fileName: string;
+  url: string;
+  width: number;
+  height: number;
+  source: 'ocr' | 'layout';
+}
+
+// Reason the server rejected a photo, with what to do differently
+interface QualityIssue {
+  code: string;
+  message: string;
+  advice?: string;
+}
+
+export interface UploadDetails {
+  discrepancies: Discrepancy[];
+  processedImage?: ProcessedImage;
+  // Set for two-sided uploads
+  processedBackImage?: ProcessedImage;
+  // Thumbnail of the holder's portrait, when one could be cropped
+  portrait?: Portrait;
+}
+
+type DocumentSide = 'front' | 'back';
+
+// A file chosen for one side of the document
+interface SelectedSide {
+  file: File;
+  previewUrl: string | null;
+  pdfPage: number;
+}
 
 interface UploadPanelProps {
-  onUploadComplete: (data: ExtractedData) => void;
+  onUploadComplete: (data: ExtractedData, details: UploadDetails) => void;
   onError: (error: string) => void;
   isUploading?: boolean;
+  fieldRegions?: Record<string, BoundingBox>;
+  activeField?: string | null;
+}
+
+// Field region as fractions (0-1) of the image width and height
+interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 interface ExtractedData {
   id?: string;
   lastName?: string;
   firstName?: string;
+  middleName?: string;
   middleInitial?: string;
+  suffix?: string;
+  preferredName?: string;
   addressStreet?: string;
   addressCity?: string;
   addressState?: string;
   addressZip?: string;
+  addressCountry?: string;
   sex?: string;
   dob?: string;
   confidence?: number;
+  fieldConfidence?: Record<string, number>;
+  fieldRegions?: Record<string, BoundingBox>;
 }
 
 const ACCEPTED_FILE_TYPES = {
@@ -36,35 +99,167 @@ const ACCEPTED_FILE_TYPES = {
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
+const SIDE_LABELS: Record<DocumentSide, string> = {
+  front: 'Front',
+  back: 'Back (optional)'
+};
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const validateFile = (file: File): string | null => {
+  // Check file size
+  if (file.size > MAX_FILE_SIZE) {
+    return 'File size must be less than 10MB';
+  }
+
+  // Check file type
+  const isAccepted = Object.keys(ACCEPTED_FILE_TYPES).includes(file.type);
+  if (!isAccepted) {
+    return 'Invalid file type. Accepted formats: JPG, PNG, PDF, HEIC';
+  }
+
+  return null;
+};
+
+interface SideUploadProps {
+  side: DocumentSide;
+  selected: SelectedSide | null;
+  disabled: boolean;
+  onSelect: (side: DocumentSide, file: File) => void;
+  onClear: (side: DocumentSide) => void;
+  onPdfPageChange: (side: DocumentSide, page: number) => void;
+  // Drawn over the preview, e.g. field regions
+  overlay?: React.ReactNode;
+}
+
+// Drop zone and preview for one side of the document
+const SideUpload: React.FC<SideUploadProps> = ({
+  side,
+  selected,
+  disabled,
+  onSelect,
+  onClear,
+  onPdfPageChange,
+  overlay
+}) => {
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (files: File[]) => files[0] && onSelect(side, files[0]),
+    accept: ACCEPTED_FILE_TYPES,
+    maxSize: MAX_FILE_SIZE,
+    multiple: false,
+    disabled
+  });
+
+  if (!selected) {
+    return (
+      <div className="space-y-1">
+        <p className="text-sm font-medium">{SIDE_LABELS[side]}</p>
+        <div
+          {...getRootProps()}
+          className={cn(
+            "border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors",
+            "hover:border-primary/50 hover:bg-primary/5",
+            "focus:outline-none focus:ring-2 focus:ring-primary/20",
+            (isDragActive || disabled) && "border-primary bg-primary/10 cursor-not-allowed"
+          )}
+        >
+          <input {...getInputProps()} />
+          <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-sm font-medium">
+            {isDragActive ? 'Drop the file here...' : 'Drag & drop or click'}
+          </p>
+          {side === 'back' && !isDragActive && (
+            <p className="text-xs text-muted-foreground mt-1">Include it to read the barcode</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const isPdf = selected.file.type === 'application/pdf';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">{SIDE_LABELS[side]}</p>
+        {!disabled && (
+          <Button variant="ghost" size="sm" onClick={() => onClear(side)} className="h-6 px-1">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* File Preview */}
+      {selected.previewUrl ? (
+        <div className="flex justify-center rounded-lg border bg-gray-50">
+          {/* Sized to the image so region percentages line up with the photo */}
+          <div className="relative">
+            <img
+              src={selected.previewUrl}
+              alt={`ID ${side} preview`}
+              className="block max-h-48 max-w-full w-auto rounded-lg"
+            />
+            {overlay}
+          </div>
+        </div>
+      ) : (
+        <div className="border rounded-lg p-3 bg-gray-50">
+          <div className="flex items-center gap-2">
+            <File className="h-6 w-6 shrink-0 text-gray-400" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{selected.file.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatFileSize(selected.file.size)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* PDF Page Selection */}
+      {isPdf && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${side}PdfPage`} className="whitespace-nowrap text-xs">PDF page</Label>
+          <Input
+            id={`${side}PdfPage`}
+            type="number"
+            min={1}
+            value={selected.pdfPage}
+            onChange={(e) => onPdfPageChange(side, Math.max(1, parseInt(e.target.value) || 1))}
+            disabled={disabled}
+            className="h-8 w-20"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const UploadPanel: React.FC<UploadPanelProps> = ({
   onUploadComplete,
   onError,
-  isUploading = false
+  isUploading = false,
+  fieldRegions,
+  activeField
 }) => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [sides, setSides] = useState<Record<DocumentSide, SelectedSide | null>>({ front: null, back: null });
   const [uploadProgress, setUploadProgress] = useState(0);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
+  const [qualityIssues, setQualityIssues] = useState<QualityIssue[]>([]);
 
-  const validateFile = (file: File): string | null => {
-    // Check file size
-    if (file.size > MAX_FILE_SIZE) {
-      return 'File size must be less than 10MB';
-    }
-
-    // Check file type
-    const isAccepted = Object.keys(ACCEPTED_FILE_TYPES).includes(file.type);
-    if (!isAccepted) {
-      return 'Invalid file type. Accepted formats: JPG, PNG, PDF, HEIC';
-    }
+  const isBusy = isUploading || uploadStatus === 'uploading';
 
-    return null;
+  const updateSide = (side: DocumentSide, update: Partial<SelectedSide>) => {
+    setSides(prev => prev[side] ? { ...prev, [side]: { ...prev[side], ...update } } : prev);
   };
 
-  const handleFileSelect = useCallback((files: File[]) => {
-    if (files.length === 0) return;
-
-    const file = files[0];
+  const handleFileSelect = useCallback((side: DocumentSide, file: File) => {
     const validationError = validateFile(file);
 
     if (validationError) {
@@ -73,30 +268,51 @@ export const UploadPanel: React.FC<UploadPanelProps> = ({
       return;
     }
 
-    setSelectedFile(file);
+    setSides(prev => ({ ...prev, [side]: { file, previewUrl: null, pdfPage: 1 } }));
     setUploadStatus('idle');
     setUploadProgress(0);
+    setQualityIssues([]);
 
     // Create preview for image files
     if (file.type.startsWith('image/')) {
       const reader = new FileReader();
       reader.onload = (e) => {
-        setPreviewUrl(e.target?.result as string);
+        updateSide(side, { previewUrl: e.target?.result as string });
       };
       reader.readAsDataURL(file);
-    } else {
-      setPreviewUrl(null);
     }
   }, [onError]);
 
+  const handleClear = useCallback((side: DocumentSide) => {
+    setSides(prev => ({ ...prev, [side]: null }));
+    setUploadStatus('idle');
+    setUploadProgress(0);
+    setQualityIssues([]);
+  }, []);
+
+  const handlePdfPageChange = useCallback((side: DocumentSide, pdfPage: number) => {
+    updateSide(side, { pdfPage });
+  }, []);
+
   const handleUpload = useCallback(async () => {
-    if (!selectedFile) return;
+    const { front, back } = sides;
+    if (!front) return;
 
     const formData = new FormData();
-    formData.append('idImage', selectedFile);
+    formData.append('front', front.file);
+    if (front.file.type === 'application/pdf') {
+      formData.append('page', String(front.pdfPage));
+    }
+    if (back) {
+      formData.append('back', back.file);
+      if (back.file.type === 'application/pdf') {
+        formData.append('backPage', String(back.pdfPage));
+      }
+    }
 
     setUploadStatus('uploading');
     setUploadProgress(0);
+    setQualityIssues([]);
 
     try {
       // Simulate progress
@@ -120,6 +336,10 @@ export const UploadPanel: React.FC<UploadPanelProps> = ({
 
       if (!response.ok) {
         const errorData = await response.json();
+        // 422s from the quality check list each problem with the photo
+        if (response.status === 422 && errorData.error?.issues) {
+          setQualityIssues(errorData.error.issues);
+        }
         throw new Error(errorData.error?.message || 'Upload failed');
       }
 
@@ -127,7 +347,20 @@ export const UploadPanel: React.FC<UploadPanelProps> = ({
 
       if (result.success) {
         setUploadStatus('success');
-        onUploadComplete(result.data.extractedData);
+        // Show the processed images so field regions line up with what was read (also previews PDFs and HEIC)
+        const processedBackImage = result.data.back?.processedImage;
+        if (result.data.processedImage) {
+          updateSide('front', { previewUrl: `http://localhost:3001${result.data.processedImage.url}` });
+        }
+        if (processedBackImage) {
+          updateSide('back', { previewUrl: `http://localhost:3001${processedBackImage.url}` });
+        }
+        onUploadComplete(result.data.extractedData, {
+          discrepancies: result.data.discrepancies || [],
+          processedImage: result.data.processedImage,
+          processedBackImage,
+          portrait: result.data.portrait
+        });
       } else {
         throw new Error('Upload failed');
       }
@@ -137,30 +370,34 @@ export const UploadPanel: React.FC<UploadPanelProps> = ({
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
       onError(errorMessage);
     }
-  }, [selectedFile, onUploadComplete]);
+  }, [sides, onUploadComplete]);
 
   const handleReset = useCallback(() => {
-    setSelectedFile(null);
-    setPreviewUrl(null);
+    setSides({ front: null, back: null });
     setUploadStatus('idle');
     setUploadProgress(0);
+    setQualityIssues([]);
   }, []);
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    onDrop: handleFileSelect,
-    accept: ACCEPTED_FILE_TYPES,
-    maxSize: MAX_FILE_SIZE,
-    multiple: false,
-    disabled: isUploading || uploadStatus === 'uploading'
-  });
-
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
+  // Field regions refer to the front image
+  const regionOverlay = uploadStatus === 'success' && fieldRegions && Object.entries(fieldRegions).map(([field, box]) => (
+    <div
+      key={field}
+      title={field}
+      className={cn(
+        "absolute pointer-events-none rounded-sm border transition-colors",
+        field === activeField
+          ? "border-2 border-blue-600 bg-blue-500/25"
+          : "border-blue-400/60"
+      )}
+      style={{
+        left: `${box.x * 100}%`,
+        top: `${box.y * 100}%`,
+        width: `${box.width * 100}%`,
+        height: `${box.height * 100}%`
+      }}
+    />
+  ));
 
   return (
     <Card className="w-full max-w-md">
@@ -171,82 +408,30 @@ export const UploadPanel: React.FC<UploadPanelProps> = ({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {!selectedFile ? (
-          <div
-            {...getRootProps()}
-            className={cn(
-              "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors",
-              "hover:border-primary/50 hover:bg-primary/5",
-              "focus:outline-none focus:ring-2 focus:ring-primary/20",
-              (isDragActive || isUploading) && "border-primary bg-primary/10 cursor-not-allowed"
-            )}
-          >
-            <input {...getInputProps()} />
-            <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-            {isDragActive ? (
-              <p className="text-lg font-medium">Drop the file here...</p>
-            ) : (
-              <div>
-                <p className="text-lg font-medium mb-2">
-                  Drag & drop an ID photo here
-                </p>
-                <p className="text-sm text-muted-foreground mb-4">
-                  or click to select a file
-                </p>
-                <div className="text-xs text-muted-foreground space-y-1">
-                  <p>Accepted formats: JPG, PNG, PDF, HEIC</p>
-                  <p>Maximum file size: 10MB</p>
-                </div>
-              </div>
-            )}
+        <div className="grid grid-cols-2 gap-3">
+          {(['front', 'back'] as DocumentSide[]).map(side => (
+            <SideUpload
+              key={side}
+              side={side}
+              selected={sides[side]}
+              disabled={isBusy}
+              onSelect={handleFileSelect}
+              onClear={handleClear}
+              onPdfPageChange={handlePdfPageChange}
+              overlay={side === 'front' ? regionOverlay : undefined}
+            />
+          ))}
+        </div>
+
+        {!sides.front && !sides.back && (
+          <div className="text-xs text-muted-foreground text-center space-y-1">
+            <p>Accepted formats: JPG, PNG, PDF, HEIC</p>
+            <p>Maximum file size: 10MB</p>
           </div>
-        ) : (
-          <div className="space-y-4">
-            {/* File Preview */}
-            {previewUrl ? (
-              <div className="relative">
-                <img
-                  src={previewUrl}
-                  alt="ID preview"
-                  className="w-full h-48 object-contain rounded-lg border bg-gray-50"
-                />
-              </div>
-            ) : (
-              <div className="border rounded-lg p-4 bg-gray-50">
-                <div className="flex items-center gap-3">
-                  <File className="h-8 w-8 text-gray-400" />
-                  <div>
-                    <p className="font-medium truncate">{selectedFile.name}</p>
-                    <p className="text-sm text-muted-foreground">
-                      {formatFileSize(selectedFile.size)}
-                    </p>
-                  </div>
-                </div>
-              </div>
-            )}
-
-            {/* File Info */}
-            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-              <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium truncate">
-                  {selectedFile.name}
-                </p>
-                <p className="text-xs text-muted-foreground">
-                  {formatFileSize(selectedFile.size)} • {selectedFile.type || 'Unknown type'}
-                </p>
-              </div>
-              {!isUploading && uploadStatus !== 'uploading' && (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={handleReset}
-                  className="ml-2"
-                >
-                  <X className="h-4 w-4" />
-                </Button>
-              )}
-            </div>
+        )}
 
+        {(sides.front || sides.back) && (
+          <div className="space-y-4">
             {/* Upload Progress */}
             {(uploadStatus === 'uploading' || uploadStatus === 'success') && (
               <div className="space-y-2">
@@ -268,7 +453,24 @@ export const UploadPanel: React.FC<UploadPanelProps> = ({
               </Alert>
             )}
 
-            {uploadStatus === 'error' && (
+            {uploadStatus === 'error' && qualityIssues.length > 0 && (
+              <Alert className="bg-red-50 border-red-200">
+                <Camera className="h-4 w-4 text-red-600" />
+                <AlertDescription className="text-red-800">
+                  <p className="font-medium">This photo can't be read reliably. Please retake it.</p>
+                  <ul className="mt-2 space-y-1 text-sm">
+                    {qualityIssues.map((issue, index) => (
+                      <li key={`${issue.code}-${index}`}>
+                        {issue.message}
+                        {issue.advice && <span className="block text-red-700">{issue.advice}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {uploadStatus === 'error' && qualityIssues.length === 0 && (
               <Alert className="bg-red-50 border-red-200">
                 <AlertCircle className="h-4 w-4 text-red-600" />
                 <AlertDescription className="text-red-800">
@@ -281,14 +483,14 @@ export const UploadPanel: React.FC<UploadPanelProps> = ({
             <div className="flex gap-2">
               <Button
                 onClick={handleUpload}
-                disabled={uploadStatus === 'uploading' || isUploading}
+                disabled={!sides.front || isBusy}
                 className="flex-1"
               >
-                {uploadStatus === 'uploading' ? 'Processing...' : 'Extract Text'}
+                {uploadStatus === 'uploading' ? 'Processing...' : sides.front ? 'Extract Text' : 'Add the front to continue'}
               </Button>
               {uploadStatus !== 'uploading' && (
                 <Button variant="outline" onClick={handleReset}>
-                  Choose Different File
+                  Start Over
                 </Button>
               )}
             </div>
@@ -297,4 +499,4 @@ export const UploadPanel: React.FC<UploadPanelProps> = ({
       </CardContent>
     </Card>
   );
-};
\ No newline at end of file
+};
@@ -7,6 +7,8 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Validation rules shared with the backend
+      "@shared": path.resolve(__dirname, "./backend/src/shared"),
     },
   },
 })